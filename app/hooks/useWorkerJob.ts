@@ -0,0 +1,82 @@
+// app/hooks/useWorkerJob.ts
+
+import { useEffect, useRef, useState } from "react";
+import type { WorkerJobMessage } from "../../lib/workerJob";
+
+// Runs a long job in a web worker (see lib/workerJob.ts), tracking its
+// progress. Without a working worker (older browsers, or the worker failed
+// to load) the job runs on the main thread instead, after a repaint.
+// Starting again, or unmounting, stops the worker and any pending fallback.
+export function useWorkerJob<Request, Progress, Result>({
+  createWorker,
+  runHere,
+  failureMessage,
+}: {
+  createWorker: () => Worker; // must call `new Worker(new URL(...))` itself so the bundler finds the file
+  runHere: (request: Request) => Result;
+  failureMessage: string;
+}) {
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const fallbackRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    if (fallbackRef.current !== null) clearTimeout(fallbackRef.current);
+    fallbackRef.current = null;
+  };
+
+  // Stop a job that is still running when the panel goes away
+  useEffect(() => stop, []);
+
+  const start = (
+    request: Request,
+    initialProgress: Progress,
+    onDone: (result: Result) => void
+  ) => {
+    stop();
+    setProgress(initialProgress);
+    setError(null);
+
+    const finish = (result: Result) => {
+      stop();
+      setProgress(null);
+      onDone(result);
+    };
+    const fallback = () => {
+      fallbackRef.current = setTimeout(() => {
+        fallbackRef.current = null;
+        try {
+          finish(runHere(request));
+        } catch {
+          setError(failureMessage);
+          setProgress(null);
+        }
+      }, 0);
+    };
+
+    let worker: Worker;
+    try {
+      worker = createWorker();
+    } catch {
+      fallback();
+      return;
+    }
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<WorkerJobMessage<Progress, Result>>) => {
+      if (event.data.kind === "progress") setProgress(event.data.progress);
+      else finish(event.data.result);
+    };
+    worker.onerror = worker.onmessageerror = (event: Event) => {
+      event.preventDefault();
+      stop();
+      fallback();
+    };
+    worker.postMessage(request);
+  };
+
+  return { start, progress, isRunning: progress !== null, error };
+}
@@ -1,13 +1,93 @@
 "use client";
 
-import { useState, useMemo, useEffect, useCallback, type ChangeEvent } from "react";
+import {
+  Fragment,
+  useState,
+  useMemo,
+  useEffect,
+  useCallback,
+  type ChangeEvent,
+} from "react";
 import EmailLink from "./components/EmailLink";
+import { useWorkerJob } from "./hooks/useWorkerJob";
 import {
+  compareWithBaseline,
+  runBaselineSimulation,
   runDebtProSimulation,
+  runRateStressTest,
+  runOwnershipComparison,
+  runRefinanceAnalysis,
+  runStrategyWaterfall,
+  type Assumptions,
   type BaseInputs,
+  type DebtRecyclingLedger,
+  type Earner,
+  type ExitStrategy,
+  type InvestmentProperty,
+  type LifeEvent,
+  type LifeEventKind,
+  type OwnershipComparison,
+  type StrategyContribution,
+  type StrategyId,
   type TipInputs,
   type YearState,
+  type PeriodState,
+  type PurchaseTrigger,
+  type PurchaseTriggerKind,
+  type RateStressResult,
+  type RefinanceAnalysis,
+  type RefinanceEvent,
+  type RefinanceTarget,
+  type SaleBreakdown,
 } from "../lib/debtProEngine";
+import {
+  scheduledRepayment,
+  type LoanType,
+  type RepaymentFrequency,
+} from "../lib/loanMaths";
+import type { FixedRateSplit } from "../lib/loanSplits";
+import { landTax, type HoldingCostBreakdown } from "../lib/holdingCosts";
+import { stampDuty, type AustralianState } from "../lib/purchaseCosts";
+import {
+  DEFAULT_LENDER_POLICY,
+  type BindingConstraint,
+  type LenderPolicy,
+} from "../lib/lenderPolicy";
+import {
+  EMPTY_RATE_SCHEDULE,
+  type RateSchedule,
+  type RateShock,
+  type RateStep,
+} from "../lib/rateSchedule";
+import {
+  defaultMonteCarloSettings,
+  runMonteCarlo,
+  type MonteCarloProgress,
+  type MonteCarloRequest,
+  type MonteCarloResult,
+  type MonteCarloSettings,
+  type StochasticFactor,
+} from "../lib/monteCarlo";
+import {
+  currentGoalSeekValue,
+  defaultGoalSeekSettings,
+  runGoalSeek,
+  withGoalSeekValue,
+  type GoalSeekResult,
+  type GoalSeekSettings,
+  type GoalSeekVariable,
+} from "../lib/goalSeek";
+import {
+  OPTIMISER_VARIABLES,
+  defaultOptimiserSettings,
+  runOptimiser,
+  type OptimiserObjective,
+  type OptimiserRange,
+  type OptimiserRequest,
+  type OptimiserResult,
+  type OptimiserSettings,
+} from "../lib/optimiser";
+import { formatFinancialYear } from "../lib/taxTables";
 
 // Charts
 import {
@@ -20,8 +100,9 @@ import {
   Tooltip,
   Legend,
   Title,
+  type TooltipItem,
 } from "chart.js";
-import { Line } from "react-chartjs-2";
+import { Bar, Line } from "react-chartjs-2";
 
 // Register Chart.js components
 ChartJS.register(
@@ -50,6 +131,94 @@ function formatPercent(value: number): string {
   return `${value.toFixed(1)}%`;
 }
 
+function formatYearsMonths(totalMonths: number): string {
+  if (!Number.isFinite(totalMonths)) return "-";
+  const yrs = Math.floor(totalMonths / 12);
+  const months = Math.round(totalMonths % 12);
+  const parts = [];
+  if (yrs > 0) parts.push(`${yrs} year${yrs === 1 ? "" : "s"}`);
+  if (months > 0) parts.push(`${months} month${months === 1 ? "" : "s"}`);
+  return parts.length > 0 ? parts.join(" ") : "0 months";
+}
+
+const REPAYMENT_FREQUENCY_OPTIONS: { value: RepaymentFrequency; label: string }[] = [
+  { value: "monthly", label: "Monthly" },
+  { value: "fortnightly", label: "Fortnightly" },
+  { value: "weekly", label: "Weekly" },
+  { value: "halfMonthlyFortnightly", label: "Half monthly, paid fortnightly" },
+];
+
+// Projection can start in any financial year from 2023–24 to 2030–31
+const START_FINANCIAL_YEAR_OPTIONS = Array.from({ length: 8 }, (_, i) => {
+  const financialYear = 2024 + i;
+  return {
+    value: `${financialYear - 1}-07-01`,
+    label: formatFinancialYear(financialYear),
+  };
+});
+
+const LOAN_TYPE_OPTIONS: { value: LoanType; label: string }[] = [
+  { value: "principalAndInterest", label: "Principal & interest" },
+  { value: "interestOnly", label: "Interest-only, then P&I" },
+];
+
+const AUSTRALIAN_STATE_OPTIONS: { value: AustralianState; label: string }[] = [
+  { value: "NSW", label: "New South Wales" },
+  { value: "VIC", label: "Victoria" },
+  { value: "QLD", label: "Queensland" },
+  { value: "WA", label: "Western Australia" },
+  { value: "SA", label: "South Australia" },
+  { value: "TAS", label: "Tasmania" },
+  { value: "ACT", label: "Australian Capital Territory" },
+  { value: "NT", label: "Northern Territory" },
+];
+
+// What delayed (or blocked) the IP purchase, in plain words
+const BINDING_CONSTRAINT_LABELS: Record<BindingConstraint, string> = {
+  none: "Nothing – bought straight away",
+  equity: "Equity (deposit + costs)",
+  serviceability: "Serviceability (borrowing capacity)",
+  both: "Equity and serviceability",
+};
+
+// Itemised IP holding costs, in CashflowTable order
+const IP_COST_ROWS: { key: keyof HoldingCostBreakdown; label: string }[] = [
+  { key: "managementFees", label: "IP property management fees" },
+  { key: "councilStrata", label: "IP council rates & strata" },
+  { key: "insurance", label: "IP insurance" },
+  { key: "maintenance", label: "IP maintenance" },
+  { key: "landTax", label: "IP land tax" },
+];
+
+const IP_DEPRECIATION_ROWS: { key: keyof HoldingCostBreakdown; label: string }[] = [
+  { key: "div40Depreciation", label: "IP depreciation – plant (Div 40, non-cash)" },
+  { key: "div43Depreciation", label: "IP depreciation – building (Div 43, non-cash)" },
+];
+
+const EXIT_STRATEGY_OPTIONS: { value: ExitStrategy; label: string }[] = [
+  { value: "none", label: "Don't sell – show when I could" },
+  { value: "atDebtFree", label: "Sell at the debt-free point" },
+  { value: "atYear", label: "Sell in a year I choose" },
+];
+
+const STRATEGY_SHORT_LABELS: Record<StrategyId, string> = {
+  1: "Extra savings",
+  2: "Offset account",
+  3: "Repayment frequency",
+  4: "Salary increases",
+  5: "Investment property",
+  6: "Debt recycling",
+};
+
+const STRATEGY_COLOURS: Record<StrategyId, string> = {
+  1: "rgb(59, 130, 246)",
+  2: "rgb(16, 185, 129)",
+  3: "rgb(251, 191, 36)",
+  4: "rgb(168, 85, 247)",
+  5: "rgb(244, 63, 94)",
+  6: "rgb(14, 165, 233)",
+};
+
 /* Tip data */
 type Strategy = {
   id: number;
@@ -169,15 +338,28 @@ function ResultRow({
 
 function DebtReductionChart({
   years,
+  baselineYears,
   debtFreeLabel,
+  lifeEvents,
 }: {
   years: YearState[];
+  baselineYears: YearState[];
   debtFreeLabel: string;
+  lifeEvents: LifeEvent[];
 }) {
-  const labels = years.map((y) => `Year ${y.yearIndex + 1}`);
-  const homeLoanBalances = years.map((y) => y.homeLoanBalance);
-  const totalLiabilities = years.map((y) => y.totalLiabilities);
-  const totalAvailableIfSoldData = years.map((y) => y.totalAvailableIfSold);
+  // The baseline usually runs longer, so pad the strategy series with gaps
+  const yearCount = Math.max(years.length, baselineYears.length);
+  const labels = Array.from({ length: yearCount }, (_, i) => `Year ${i + 1}`);
+  const seriesFor = (source: YearState[], pick: (y: YearState) => number) =>
+    labels.map((_, i) => (source[i] ? pick(source[i]) : null));
+
+  const homeLoanBalances = seriesFor(years, (y) => y.homeLoanBalance);
+  const totalLiabilities = seriesFor(years, (y) => y.totalLiabilities);
+  const totalAvailableIfSoldData = seriesFor(years, (y) => y.totalAvailableIfSold);
+  const baselineHomeLoanBalances = seriesFor(
+    baselineYears,
+    (y) => y.homeLoanBalance
+  );
 
   const data = {
     labels,
@@ -205,6 +387,21 @@ function DebtReductionChart({
         tension: 0.3,
         borderDash: [2, 2],
       },
+      {
+        label: "Home loan – minimum repayments only",
+        data: baselineHomeLoanBalances,
+        borderColor: "rgb(148, 163, 184)",
+        backgroundColor: "rgba(148, 163, 184, 0.3)",
+        tension: 0.3,
+        borderDash: [8, 4],
+      },
+      ...(lifeEvents.length > 0
+        ? [
+            lifeEventMarkers(labels.length, lifeEvents, (i) =>
+              years[i] ? years[i].homeLoanBalance : null
+            ),
+          ]
+        : []),
     ],
   };
 
@@ -220,7 +417,9 @@ function DebtReductionChart({
       tooltip: {
         callbacks: {
           label: (context: any) =>
-            `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`,
+            context.dataset.label === LIFE_EVENT_MARKER_LABEL
+              ? lifeEventTooltip(lifeEvents, context.dataIndex)
+              : `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`,
         },
       },
     },
@@ -257,7 +456,13 @@ function DebtReductionChart({
   );
 }
 
-function NetWorthChart({ years }: { years: YearState[] }) {
+function NetWorthChart({
+  years,
+  lifeEvents,
+}: {
+  years: YearState[];
+  lifeEvents: LifeEvent[];
+}) {
   const labels = years.map((y) => `Year ${y.yearIndex + 1}`);
   const netWorths = years.map((y) => y.netWorth);
   const totalAssets = years.map((y) => y.totalAssets);
@@ -280,6 +485,13 @@ function NetWorthChart({ years }: { years: YearState[] }) {
         backgroundColor: "rgba(251, 191, 36, 0.35)",
         tension: 0.3,
       },
+      ...(lifeEvents.length > 0
+        ? [
+            lifeEventMarkers(labels.length, lifeEvents, (i) =>
+              years[i] ? years[i].netWorth : null
+            ),
+          ]
+        : []),
     ],
   };
 
@@ -295,7 +507,9 @@ function NetWorthChart({ years }: { years: YearState[] }) {
       tooltip: {
         callbacks: {
           label: (context: any) =>
-            `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`,
+            context.dataset.label === LIFE_EVENT_MARKER_LABEL
+              ? lifeEventTooltip(lifeEvents, context.dataIndex)
+              : `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`,
         },
       },
     },
@@ -326,6 +540,95 @@ function NetWorthChart({ years }: { years: YearState[] }) {
   );
 }
 
+function StrategyContributionChart({
+  contributions,
+}: {
+  contributions: StrategyContribution[];
+}) {
+  const included = contributions.filter((c) => c.enabled);
+
+  const datasetsFor = (pick: (c: StrategyContribution) => number) =>
+    included.map((c) => ({
+      label: `${c.strategyId}. ${STRATEGY_SHORT_LABELS[c.strategyId]}`,
+      data: [pick(c)],
+      backgroundColor: STRATEGY_COLOURS[c.strategyId],
+    }));
+
+  const optionsFor = (format: (value: number) => string) => ({
+    indexAxis: "y" as const,
+    responsive: true,
+    maintainAspectRatio: false as const,
+    plugins: {
+      legend: {
+        position: "top" as const,
+        labels: { color: "rgb(71, 85, 105)", boxWidth: 12 },
+      },
+      title: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"bar">) =>
+            `${context.dataset.label}: ${format(context.parsed.x ?? 0)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        stacked: true,
+        ticks: {
+          color: "rgb(71, 85, 105)",
+          callback: (value: string | number) => format(Number(value)),
+        },
+        grid: { color: "rgb(226, 232, 240)" },
+      },
+      y: {
+        stacked: true,
+        ticks: { color: "rgb(71, 85, 105)" },
+        grid: { display: false },
+      },
+    },
+  });
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 space-y-4 shadow-sm">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">
+          What each strategy contributes
+        </h3>
+        <p className="text-xs text-slate-600 mt-1">
+          Strategies are added one at a time in order, so each bar segment is
+          the extra saving from switching that strategy on.
+        </p>
+      </div>
+      {included.length === 0 ? (
+        <p className="text-sm text-slate-600">
+          Switch on at least one strategy to see its contribution.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="h-32">
+            <Bar
+              options={optionsFor(formatCurrency)}
+              data={{
+                labels: ["Interest saved"],
+                datasets: datasetsFor((c) => c.interestSaved),
+              }}
+            />
+          </div>
+          <div className="h-32">
+            <Bar
+              options={optionsFor((months) => `${Math.round(months)} mths`)}
+              data={{
+                labels: ["Time saved"],
+                datasets: datasetsFor((c) => c.monthsSaved),
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ─────────────────────────────────────
    TABLE COMPONENTS + TABS
    ───────────────────────────────────── */
@@ -349,11 +652,19 @@ function CashflowTable({ years }: { years: YearState[] }) {
                   className="px-3 py-2 text-right text-[11px] font-medium text-slate-700 whitespace-nowrap border-l border-slate-200"
                 >
                   Year {y.yearIndex + 1}
+                  <span className="ml-1 text-[10px] text-slate-500">
+                    {formatFinancialYear(y.financialYear)}
+                  </span>
                   {y.couldClearHomeLoan && (
                     <span className="ml-1 text-[10px] text-emerald-600">
                       • can clear
                     </span>
                   )}
+                  {y.exitExecuted && (
+                    <span className="ml-1 text-[10px] text-sky-700">
+                      • sold
+                    </span>
+                  )}
                 </th>
               ))}
             </tr>
@@ -383,20 +694,33 @@ function CashflowTable({ years }: { years: YearState[] }) {
             </tr>
             <tr className="bg-slate-50">
               <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
-                Investment property rent
+                Investment property rent (fully let)
               </td>
               {years.map((y) => (
                 <td
                   key={`ipRent-${y.yearIndex}`}
                   className="px-3 py-2 text-right"
                 >
-                  {formatCurrency(y.ipRent)}
+                  {formatCurrency(y.ipCosts.grossRent)}
+                </td>
+              ))}
+            </tr>
+            <tr className="bg-slate-50">
+              <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
+                Less vacancy
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`ipVacancy-${y.yearIndex}`}
+                  className="px-3 py-2 text-right"
+                >
+                  {formatCurrency(-y.ipCosts.vacancyLoss)}
                 </td>
               ))}
             </tr>
             <tr>
               <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
-                Investment income (portfolio)
+                Investment income (portfolio dividends)
               </td>
               {years.map((y) => (
                 <td
@@ -407,6 +731,21 @@ function CashflowTable({ years }: { years: YearState[] }) {
                 </td>
               ))}
             </tr>
+            {years.some((y) => y.frankingCredits > 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  Franking credits (received via tax benefit)
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`franking-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.frankingCredits)}
+                  </td>
+                ))}
+              </tr>
+            )}
             <tr className="bg-slate-50">
               <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
                 Tax benefit / (extra tax)
@@ -426,6 +765,21 @@ function CashflowTable({ years }: { years: YearState[] }) {
                 </td>
               ))}
             </tr>
+            {years.some((y) => y.oneOffInflows !== 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  One-off inflows (life events)
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`oneOffIn-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.oneOffInflows)}
+                  </td>
+                ))}
+              </tr>
+            )}
             <tr className="bg-slate-100">
               <td className="sticky left-0 bg-slate-100 px-3 py-2 font-medium text-slate-800">
                 Total income
@@ -478,32 +832,90 @@ function CashflowTable({ years }: { years: YearState[] }) {
                 </td>
               ))}
             </tr>
+            {IP_COST_ROWS.map((row) => (
+              <tr key={row.key}>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  {row.label}
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`${row.key}-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.ipCosts[row.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="bg-slate-50">
+              <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
+                Investment property interest
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`ipInt-${y.yearIndex}`}
+                  className="px-3 py-2 text-right"
+                >
+                  {formatCurrency(y.ipInterest)}
+                </td>
+              ))}
+            </tr>
             <tr>
               <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
-                Investment property expenses
+                Investment property principal repaid
               </td>
               {years.map((y) => (
                 <td
-                  key={`ipExp-${y.yearIndex}`}
+                  key={`ipPrincipal-${y.yearIndex}`}
                   className="px-3 py-2 text-right"
                 >
-                  {formatCurrency(y.ipExpenses)}
+                  {formatCurrency(y.ipPrincipalRepaid)}
                 </td>
               ))}
             </tr>
             <tr className="bg-slate-50">
               <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
-                Investment property interest
+                Recycled split interest
               </td>
               {years.map((y) => (
                 <td
-                  key={`ipInt-${y.yearIndex}`}
+                  key={`recycledInt-${y.yearIndex}`}
                   className="px-3 py-2 text-right"
                 >
-                  {formatCurrency(y.ipInterest)}
+                  {formatCurrency(y.debtRecyclingInterest)}
                 </td>
               ))}
             </tr>
+            {years.some((y) => y.oneOffOutflows !== 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  One-off outflows (life events)
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`oneOffOut-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.oneOffOutflows)}
+                  </td>
+                ))}
+              </tr>
+            )}
+            {years.some((y) => y.refinanceCosts !== 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  Refinance costs (less cashback)
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`refinance-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.refinanceCosts)}
+                  </td>
+                ))}
+              </tr>
+            )}
             <tr className="bg-slate-100">
               <td className="sticky left-0 bg-slate-100 px-3 py-2 font-medium text-slate-800">
                 Total expenses
@@ -517,6 +929,21 @@ function CashflowTable({ years }: { years: YearState[] }) {
                 </td>
               ))}
             </tr>
+            {years.some((y) => y.debtRecyclingPaydowns > 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  Dividends & tax refunds recycled
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`recycledPaydowns-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.debtRecyclingPaydowns)}
+                  </td>
+                ))}
+              </tr>
+            )}
 
             {/* Surplus */}
             <tr>
@@ -536,6 +963,189 @@ function CashflowTable({ years }: { years: YearState[] }) {
                 </td>
               ))}
             </tr>
+            <tr className="bg-slate-50">
+              <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
+                Moved to / (drawn from) offset
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`offsetSweep-${y.yearIndex}`}
+                  className="px-3 py-2 text-right"
+                >
+                  {formatCurrency(y.offsetSweep)}
+                </td>
+              ))}
+            </tr>
+            {years.some((y) => y.unfundedShortfall > 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  Unfunded shortfall
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`unfunded-${y.yearIndex}`}
+                    className={`px-3 py-2 text-right ${
+                      y.unfundedShortfall > 0 ? "text-rose-500" : ""
+                    }`}
+                  >
+                    {formatCurrency(y.unfundedShortfall)}
+                  </td>
+                ))}
+              </tr>
+            )}
+
+            {/* Tax header */}
+            <tr className="bg-slate-50">
+              <td className="sticky left-0 bg-slate-50 px-3 py-2 font-semibold text-slate-800">
+                Tax
+              </td>
+              {years.map((y) => (
+                <td key={`tax-header-${y.yearIndex}`} className="px-3 py-2" />
+              ))}
+            </tr>
+            <tr>
+              <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                Gross salary
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`grossSalary-${y.yearIndex}`}
+                  className="px-3 py-2 text-right"
+                >
+                  {formatCurrency(y.grossSalary)}
+                </td>
+              ))}
+            </tr>
+            {IP_DEPRECIATION_ROWS.map((row) => (
+              <tr key={row.key}>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  {row.label}
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`${row.key}-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.ipCosts[row.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {years.some((y) => y.frankingCredits > 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  Dividends grossed up for franking
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`grossedUp-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.investIncome + y.frankingCredits)}
+                  </td>
+                ))}
+              </tr>
+            )}
+            <tr className="bg-slate-50">
+              <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
+                Taxable income
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`taxableIncome-${y.yearIndex}`}
+                  className="px-3 py-2 text-right"
+                >
+                  {formatCurrency(y.taxableIncome)}
+                </td>
+              ))}
+            </tr>
+            {years.some((y) => y.frankingCredits > 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  Less franking credit offset (refundable)
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`frankingOffset-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(-y.frankingCredits)}
+                  </td>
+                ))}
+              </tr>
+            )}
+            <tr>
+              <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                Tax payable (incl. Medicare)
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`incomeTax-${y.yearIndex}`}
+                  className="px-3 py-2 text-right"
+                >
+                  {formatCurrency(y.incomeTax)}
+                </td>
+              ))}
+            </tr>
+            <tr className="bg-slate-50">
+              <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
+                {(years[0]?.earners.length ?? 0) > 1
+                  ? "Marginal tax rate (highest)"
+                  : "Marginal tax rate"}
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`marginalRate-${y.yearIndex}`}
+                  className="px-3 py-2 text-right"
+                >
+                  {formatPercent(y.marginalTaxRate * 100)}
+                </td>
+              ))}
+            </tr>
+            {(years[0]?.earners.length ?? 0) > 1 &&
+              years[0].earners.map((earner, earnerIndex) => (
+                <Fragment key={`earner-${earnerIndex}`}>
+                  <tr>
+                    <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                      {earner.label} – taxable income
+                    </td>
+                    {years.map((y) => (
+                      <td
+                        key={`earnerTaxable-${earnerIndex}-${y.yearIndex}`}
+                        className="px-3 py-2 text-right"
+                      >
+                        {formatCurrency(y.earners[earnerIndex]?.taxableIncome ?? 0)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="bg-slate-50">
+                    <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800">
+                      {earner.label} – tax payable
+                    </td>
+                    {years.map((y) => (
+                      <td
+                        key={`earnerTax-${earnerIndex}-${y.yearIndex}`}
+                        className="px-3 py-2 text-right"
+                      >
+                        {formatCurrency(y.earners[earnerIndex]?.incomeTax ?? 0)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                      {earner.label} – marginal rate
+                    </td>
+                    {years.map((y) => (
+                      <td
+                        key={`earnerRate-${earnerIndex}-${y.yearIndex}`}
+                        className="px-3 py-2 text-right"
+                      >
+                        {formatPercent((y.earners[earnerIndex]?.marginalTaxRate ?? 0) * 100)}
+                      </td>
+                    ))}
+                  </tr>
+                </Fragment>
+              ))}
           </tbody>
         </table>
       </div>
@@ -595,11 +1205,11 @@ function HomeLoanDetailTable({
 
             <tr>
               <td className="sticky left-0 bg-white px-3 py-2 text-slate-800 font-medium">
-                Minimum repayments (13× monthly)
+                Minimum repayments (annual)
               </td>
               {years.map((y, idx) => (
                 <td key={`minRepay-${idx}`} className="px-3 py-2 text-right">
-                  {formatCurrency(y.minRepaymentMonthly * 13)}
+                  {formatCurrency(y.minRepaymentsAnnual)}
                 </td>
               ))}
             </tr>
@@ -609,10 +1219,9 @@ function HomeLoanDetailTable({
                 Additional repayments
               </td>
               {years.map((y, idx) => {
-                const minAnnual = y.minRepaymentMonthly * 13;
                 const additional = Math.max(
                   0,
-                  y.homeLoanRepayments - minAnnual
+                  y.homeLoanRepayments - y.minRepaymentsAnnual
                 );
                 return (
                   <td
@@ -647,6 +1256,17 @@ function HomeLoanDetailTable({
               ))}
             </tr>
 
+            <tr>
+              <td className="sticky left-0 bg-white px-3 py-2 text-slate-800 font-medium">
+                Interest rate
+              </td>
+              {years.map((y, idx) => (
+                <td key={`rate-${idx}`} className="px-3 py-2 text-right">
+                  {formatPercent(y.homeLoanRate * 100)}
+                </td>
+              ))}
+            </tr>
+
             <tr className="bg-slate-50">
               <td className="sticky left-0 bg-slate-50 px-3 py-2 text-slate-800 font-medium">
                 Interest charged
@@ -658,6 +1278,30 @@ function HomeLoanDetailTable({
               ))}
             </tr>
 
+            {baseInputs.fixedRateSplits.length > 0 &&
+              years[0]?.homeLoanSplits.map((split, splitIdx) => (
+                <tr key={`split-${splitIdx}`}>
+                  <td className="sticky left-0 bg-white px-3 py-2 text-slate-600">
+                    {split.label} balance
+                  </td>
+                  {years.map((y, idx) => {
+                    const yearSplit = y.homeLoanSplits[splitIdx];
+                    return (
+                      <td
+                        key={`split-${splitIdx}-${idx}`}
+                        className="px-3 py-2 text-right text-slate-600 whitespace-nowrap"
+                      >
+                        {formatCurrency(yearSplit.balance)}
+                        <span className="ml-1 text-[10px] text-slate-400">
+                          {formatPercent(yearSplit.rate * 100)}
+                          {yearSplit.isFixed ? " fixed" : ""}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+
             <tr>
               <td className="sticky left-0 bg-white px-3 py-2 text-slate-800 font-medium">
                 Closing balance
@@ -682,30 +1326,127 @@ function HomeLoanDetailTable({
   );
 }
 
-function AssetsLiabilitiesTable({ years }: { years: YearState[] }) {
+function RepaymentScheduleTable({
+  years,
+  periods,
+}: {
+  years: YearState[];
+  periods: PeriodState[];
+}) {
+  const [selectedYear, setSelectedYear] = useState(0);
+  const yearIndex = Math.min(selectedYear, Math.max(0, years.length - 1));
+  const yearPeriods = periods.filter((p) => p.yearIndex === yearIndex);
+
   return (
     <div>
-      <h3 className="text-sm font-semibold text-slate-900 mb-2">
-        Assets & liabilities projection
-      </h3>
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <h3 className="text-sm font-semibold text-slate-900">
+          Repayment schedule
+        </h3>
+        <select
+          value={yearIndex}
+          onChange={(e) => setSelectedYear(Number(e.target.value))}
+          className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800"
+        >
+          {years.map((y) => (
+            <option key={y.yearIndex} value={y.yearIndex}>
+              Year {y.yearIndex + 1}
+            </option>
+          ))}
+        </select>
+      </div>
       <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
         <table className="min-w-full text-[11px] md:text-xs text-left">
           <thead className="bg-slate-100 border-b border-slate-200">
             <tr>
-              <th className="sticky left-0 z-10 bg-slate-100 px-3 py-2 text-[11px] font-semibold text-slate-700">
-                Category
+              <th className="px-3 py-2 text-[11px] font-semibold text-slate-700">
+                Period
               </th>
-              {years.map((y) => (
-                <th
-                  key={y.yearIndex}
-                  className="px-3 py-2 text-right text-[11px] font-medium text-slate-700 whitespace-nowrap border-l border-slate-200"
-                >
+              <th className="px-3 py-2 text-right text-[11px] font-medium text-slate-700">
+                Opening balance
+              </th>
+              <th className="px-3 py-2 text-right text-[11px] font-medium text-slate-700">
+                Interest
+              </th>
+              <th className="px-3 py-2 text-right text-[11px] font-medium text-slate-700">
+                Repayment
+              </th>
+              <th className="px-3 py-2 text-right text-[11px] font-medium text-slate-700">
+                Principal
+              </th>
+              <th className="px-3 py-2 text-right text-[11px] font-medium text-slate-700">
+                Closing balance
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {yearPeriods.map((p) => (
+              <tr key={`period-${p.yearIndex}-${p.periodIndex}`}>
+                <td className="px-3 py-2 text-slate-800">
+                  {p.periodIndex + 1}
+                  <span className="ml-1 text-[10px] text-slate-500">
+                    ({p.days} days)
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatCurrency(p.openingBalance)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatCurrency(p.interest)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatCurrency(p.repayment)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatCurrency(p.principal)}
+                </td>
+                <td
+                  className={`px-3 py-2 text-right ${
+                    p.closingBalance === 0
+                      ? "text-emerald-600 font-semibold"
+                      : "text-slate-800"
+                  }`}
+                >
+                  {formatCurrency(p.closingBalance)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function AssetsLiabilitiesTable({ years }: { years: YearState[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-900 mb-2">
+        Assets & liabilities projection
+      </h3>
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <table className="min-w-full text-[11px] md:text-xs text-left">
+          <thead className="bg-slate-100 border-b border-slate-200">
+            <tr>
+              <th className="sticky left-0 z-10 bg-slate-100 px-3 py-2 text-[11px] font-semibold text-slate-700">
+                Category
+              </th>
+              {years.map((y) => (
+                <th
+                  key={y.yearIndex}
+                  className="px-3 py-2 text-right text-[11px] font-medium text-slate-700 whitespace-nowrap border-l border-slate-200"
+                >
                   Year {y.yearIndex + 1}
                   {y.couldClearHomeLoan && (
                     <span className="ml-1 text-[10px] text-emerald-600">
                       • can clear
                     </span>
                   )}
+                  {y.exitExecuted && (
+                    <span className="ml-1 text-[10px] text-sky-700">
+                      • sold
+                    </span>
+                  )}
                 </th>
               ))}
             </tr>
@@ -727,7 +1468,7 @@ function AssetsLiabilitiesTable({ years }: { years: YearState[] }) {
 
             <tr className="bg-slate-50">
               <td className="sticky left-0 bg-slate-50 px-3 py-2 font-medium text-slate-800">
-                Investment property value
+                Investment property value{(years[0]?.properties.length ?? 0) > 1 ? " (total)" : ""}
               </td>
               {years.map((y) => (
                 <td key={`ip-${y.yearIndex}`} className="px-3 py-2 text-right">
@@ -735,6 +1476,24 @@ function AssetsLiabilitiesTable({ years }: { years: YearState[] }) {
                 </td>
               ))}
             </tr>
+            {(years[0]?.properties.length ?? 0) > 1 &&
+              years[0].properties.map((property, propertyIdx) => (
+                <tr key={`propertyValue-${propertyIdx}`}>
+                  <td className="sticky left-0 bg-white px-3 py-2 text-slate-600">
+                    {property.label}
+                  </td>
+                  {years.map((y) => (
+                    <td
+                      key={`propertyValue-${propertyIdx}-${y.yearIndex}`}
+                      className="px-3 py-2 text-right text-slate-600"
+                    >
+                      {y.properties[propertyIdx]?.held
+                        ? formatCurrency(y.properties[propertyIdx].value)
+                        : "–"}
+                    </td>
+                  ))}
+                </tr>
+              ))}
 
             <tr>
               <td className="sticky left-0 bg-white px-3 py-2 font-medium text-slate-800">
@@ -794,7 +1553,7 @@ function AssetsLiabilitiesTable({ years }: { years: YearState[] }) {
 
             <tr className="bg-slate-50">
               <td className="sticky left-0 bg-slate-50 px-3 py-2 font-medium text-slate-800">
-                Investment property loan
+                Investment property loan{(years[0]?.properties.length ?? 0) > 1 ? "s (total)" : ""}
               </td>
               {years.map((y) => (
                 <td key={`loanIP-${y.yearIndex}`} className="px-3 py-2 text-right">
@@ -802,6 +1561,34 @@ function AssetsLiabilitiesTable({ years }: { years: YearState[] }) {
                 </td>
               ))}
             </tr>
+            {(years[0]?.properties.length ?? 0) > 1 &&
+              years[0].properties.map((property, propertyIdx) => (
+                <tr key={`propertyLoan-${propertyIdx}`}>
+                  <td className="sticky left-0 bg-white px-3 py-2 text-slate-600">
+                    {property.label} loan
+                  </td>
+                  {years.map((y) => {
+                    const yearProperty = y.properties[propertyIdx];
+                    return (
+                      <td
+                        key={`propertyLoan-${propertyIdx}-${y.yearIndex}`}
+                        className="px-3 py-2 text-right text-slate-600 whitespace-nowrap"
+                      >
+                        {yearProperty?.held ? (
+                          <>
+                            {formatCurrency(yearProperty.loanBalance)}
+                            <span className="ml-1 text-[10px] text-slate-400">
+                              {formatPercent(yearProperty.loanRate * 100)}
+                            </span>
+                          </>
+                        ) : (
+                          "–"
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
 
             <tr>
               <td className="sticky left-0 bg-white px-3 py-2 font-medium text-slate-800">
@@ -844,6 +1631,172 @@ function AssetsLiabilitiesTable({ years }: { years: YearState[] }) {
                 </td>
               ))}
             </tr>
+
+            {/* Sale breakdown header */}
+            <tr className="bg-slate-50">
+              <td className="sticky left-0 bg-slate-50 px-3 py-2 font-semibold text-slate-800">
+                If IP + portfolio sold at year end
+              </td>
+              {years.map((y) => (
+                <td key={`sale-header-${y.yearIndex}`} className="px-3 py-2" />
+              ))}
+            </tr>
+            {SALE_BREAKDOWN_ROWS.map((row, rowIdx) => (
+              <tr
+                key={row.key}
+                className={rowIdx % 2 === 1 ? "bg-slate-50" : undefined}
+              >
+                <td
+                  className={`sticky left-0 px-3 py-2 text-slate-800 ${
+                    rowIdx % 2 === 1 ? "bg-slate-50" : "bg-white"
+                  }`}
+                >
+                  {row.label}
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`${row.key}-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(row.sign * y.saleBreakdown[row.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="bg-slate-100">
+              <td className="sticky left-0 bg-slate-100 px-3 py-2 font-semibold text-slate-800">
+                Cash available for the home loan
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`saleTotal-${y.yearIndex}`}
+                  className={`px-3 py-2 text-right font-semibold ${
+                    y.couldClearHomeLoan ? "text-emerald-600" : "text-slate-800"
+                  }`}
+                >
+                  {formatCurrency(y.saleBreakdown.totalAvailable)}
+                </td>
+              ))}
+            </tr>
+            {years.some((y) => y.saleBreakdown.homeLoanBreakCosts > 0) && (
+              <tr>
+                <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                  Fixed split break costs (extra to clear)
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`breakCosts-${y.yearIndex}`}
+                    className="px-3 py-2 text-right"
+                  >
+                    {formatCurrency(y.saleBreakdown.homeLoanBreakCosts)}
+                  </td>
+                ))}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// Itemised sale rows (costs shown as negatives)
+const SALE_BREAKDOWN_ROWS: {
+  key: keyof Omit<SaleBreakdown, "totalAvailable">;
+  label: string;
+  sign: 1 | -1;
+}[] = [
+  { key: "ipSalePrice", label: "IP sale price", sign: 1 },
+  { key: "ipSellingCosts", label: "Selling costs", sign: -1 },
+  { key: "ipLoanRepaid", label: "IP loan repaid", sign: -1 },
+  { key: "ipCapitalGain", label: "IP capital gain (before discount)", sign: 1 },
+  { key: "portfolioValue", label: "Portfolio value", sign: 1 },
+  { key: "investmentLoanRepaid", label: "Recycled loan repaid", sign: -1 },
+  { key: "portfolioCapitalGain", label: "Portfolio capital gain (before discount)", sign: 1 },
+  { key: "netCapitalGain", label: "Net capital gain (after 50% discount)", sign: 1 },
+  { key: "cgtPayable", label: "CGT payable", sign: -1 },
+  { key: "offsetAvailable", label: "Offset cash above emergency fund", sign: 1 },
+];
+
+// Debt recycling ledger rows; `total` rows are shown in bold
+const DEBT_RECYCLING_ROWS: {
+  key: keyof DebtRecyclingLedger;
+  label: string;
+  total?: boolean;
+}[] = [
+  { key: "nonDeductibleOpening", label: "Home loan (non-deductible) – opening", total: true },
+  { key: "deductibleOpening", label: "Recycled split (deductible) – opening", total: true },
+  { key: "fromExtraRepayments", label: "Paid down by repayments above the minimum" },
+  { key: "fromOffset", label: "Paid down from offset (kick-off)" },
+  { key: "fromDividends", label: "Paid down by dividends" },
+  { key: "fromTaxRefunds", label: "Paid down by tax refunds" },
+  { key: "redrawn", label: "Redrawn on the deductible split & invested" },
+  { key: "deductibleInterest", label: "Interest on the recycled split" },
+  { key: "nonDeductibleClosing", label: "Home loan (non-deductible) – closing", total: true },
+  { key: "deductibleClosing", label: "Recycled split (deductible) – closing", total: true },
+];
+
+function DebtRecyclingTable({ years }: { years: YearState[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-900 mb-2">
+        Debt recycling ledger
+      </h3>
+      <p className="text-[11px] text-slate-500 mb-2">
+        Each dollar paid off the home loan is redrawn on the deductible split
+        and invested, so total debt stays the same while more of it becomes
+        tax deductible.
+      </p>
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <table className="min-w-full text-[11px] md:text-xs text-left">
+          <thead className="bg-slate-100 border-b border-slate-200">
+            <tr>
+              <th className="sticky left-0 z-10 bg-slate-100 px-3 py-2 text-[11px] font-semibold text-slate-700">
+                Category
+              </th>
+              {years.map((y) => (
+                <th
+                  key={y.yearIndex}
+                  className="px-3 py-2 text-right text-[11px] font-medium text-slate-700 whitespace-nowrap border-l border-slate-200"
+                >
+                  Year {y.yearIndex + 1}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            <tr>
+              <td className="sticky left-0 bg-white px-3 py-2 text-slate-800">
+                Recycled split rate
+              </td>
+              {years.map((y) => (
+                <td
+                  key={`recycledRate-${y.yearIndex}`}
+                  className="px-3 py-2 text-right"
+                >
+                  {formatPercent(y.recycledLoanRate * 100)}
+                </td>
+              ))}
+            </tr>
+            {DEBT_RECYCLING_ROWS.map((row) => (
+              <tr key={row.key} className={row.total ? "bg-slate-50" : undefined}>
+                <td
+                  className={`sticky left-0 px-3 py-2 text-slate-800 ${
+                    row.total ? "bg-slate-50 font-medium" : "bg-white"
+                  }`}
+                >
+                  {row.label}
+                </td>
+                {years.map((y) => (
+                  <td
+                    key={`${row.key}-${y.yearIndex}`}
+                    className={`px-3 py-2 text-right ${row.total ? "font-medium" : ""}`}
+                  >
+                    {formatCurrency(y.debtRecycling[row.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
           </tbody>
         </table>
       </div>
@@ -853,14 +1806,16 @@ function AssetsLiabilitiesTable({ years }: { years: YearState[] }) {
 
 function ResultsTabs({
   years,
+  periods,
   baseInputs,
 }: {
   years: YearState[];
+  periods: PeriodState[];
   baseInputs: BaseInputs;
 }) {
-  const [activeTab, setActiveTab] = useState<"cashflow" | "homeloan" | "assets">(
-    "cashflow"
-  );
+  const [activeTab, setActiveTab] = useState<
+    "cashflow" | "homeloan" | "schedule" | "assets" | "recycling"
+  >("cashflow");
 
   const tabs = [
     {
@@ -873,11 +1828,21 @@ function ResultsTabs({
       label: "Home loan detail",
       component: <HomeLoanDetailTable years={years} baseInputs={baseInputs} />,
     },
+    {
+      id: "schedule",
+      label: "Repayment schedule",
+      component: <RepaymentScheduleTable years={years} periods={periods} />,
+    },
     {
       id: "assets",
       label: "Assets & net worth",
       component: <AssetsLiabilitiesTable years={years} />,
     },
+    {
+      id: "recycling",
+      label: "Debt recycling",
+      component: <DebtRecyclingTable years={years} />,
+    },
   ];
 
   return (
@@ -901,9 +1866,2093 @@ function ResultsTabs({
         })}
       </div>
 
-      <div className="pt-1">
-        {tabs.find((t) => t.id === activeTab)?.component}
+      <div className="pt-1">
+        {tabs.find((t) => t.id === activeTab)?.component}
+      </div>
+    </div>
+  );
+}
+
+/* Household earners & ownership */
+const MAX_EARNERS = 2;
+
+function EarnersEditor({
+  earners,
+  onChange,
+}: {
+  earners: Earner[];
+  onChange: (earners: Earner[]) => void;
+}) {
+  const updateEarner = (index: number, changes: Partial<Earner>) =>
+    onChange(earners.map((e, i) => (i === index ? { ...e, ...changes } : e)));
+
+  return (
+    <div className="space-y-3">
+      {earners.map((earner, index) => (
+        <div
+          key={index}
+          className="rounded-lg border border-slate-200 p-3 grid gap-3 md:grid-cols-4 items-end"
+        >
+          <label className="block text-xs">
+            <span className="mb-1.5 block text-[11px] font-medium text-slate-600">
+              Name
+            </span>
+            <input
+              type="text"
+              value={earner.label}
+              onChange={(e) => updateEarner(index, { label: e.target.value })}
+              className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-sky-500 focus:ring-2 focus:ring-sky-500"
+            />
+          </label>
+          <InputField
+            label="Annual gross salary (before tax)"
+            value={earner.grossSalaryAnnual}
+            onChange={(val) => updateEarner(index, { grossSalaryAnnual: val || 0 })}
+            prefix="$"
+          />
+          <InputField
+            label="Salary increase (p.a.)"
+            value={earner.salaryGrowthRate * 100}
+            onChange={(val) => updateEarner(index, { salaryGrowthRate: (val || 0) / 100 })}
+            suffix="%"
+            decimals={2}
+          />
+          {index > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange(earners.filter((_, i) => i !== index))}
+              className="mb-1 px-3 py-2 text-xs rounded-full font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+
+      {earners.length < MAX_EARNERS && (
+        <button
+          type="button"
+          onClick={() =>
+            onChange([
+              ...earners,
+              { label: "Partner", grossSalaryAnnual: 80_000, salaryGrowthRate: 0.03 },
+            ])
+          }
+          className="px-3 py-1.5 text-xs sm:text-sm rounded-full font-medium border border-slate-200 text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+        >
+          + Add a second earner
+        </button>
+      )}
+
+      <p className="text-[11px] text-slate-500">
+        Each person is taxed separately using ATO resident rates, on their own
+        salary plus their share of the investment property and portfolio.
+      </p>
+    </div>
+  );
+}
+
+function ownershipLabel(share: number, earners: Earner[]): string {
+  if (share >= 1) return earners[0]?.label || "Earner 1";
+  if (share <= 0) return earners[1]?.label || "Earner 2";
+  return `${formatPercent(share * 100)} / ${formatPercent((1 - share) * 100)}`;
+}
+
+function OwnershipComparisonPanel({
+  baseInputs,
+  tipInputs,
+  assumptionInputs,
+  currentIpShare,
+  currentPortfolioShare,
+}: {
+  baseInputs: BaseInputs;
+  tipInputs: TipInputs;
+  assumptionInputs: Partial<Assumptions>;
+  currentIpShare?: number; // undefined when properties are held differently
+  currentPortfolioShare: number;
+}) {
+  const earners = baseInputs.earners;
+
+  // Ten full projections, so only run when asked. Remember which inputs
+  // the comparison was run with so we can flag it as stale.
+  const [lastRun, setLastRun] = useState<{
+    comparison: OwnershipComparison[];
+    baseInputs: BaseInputs;
+    tipInputs: TipInputs;
+    assumptionInputs: Partial<Assumptions>;
+  } | null>(null);
+
+  const isStale =
+    lastRun !== null &&
+    (lastRun.baseInputs !== baseInputs ||
+      lastRun.tipInputs !== tipInputs ||
+      lastRun.assumptionInputs !== assumptionInputs);
+
+  const handleCompare = () =>
+    setLastRun({
+      comparison: runOwnershipComparison(baseInputs, tipInputs, assumptionInputs),
+      baseInputs,
+      tipInputs,
+      assumptionInputs,
+    });
+
+  const comparison = lastRun?.comparison ?? [];
+  const bestNetWorth = Math.max(...comparison.map((row) => row.netWorth));
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 space-y-4 shadow-sm">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h3 className="text-base font-semibold text-slate-900">
+            Whose name should the investments be in?
+          </h3>
+          <p className="text-xs text-slate-600 mt-1">
+            The same plan with the investment property and portfolio held in
+            different names, compared up to your current debt-free year.
+            Splits are shown as {earners[0]?.label || "Earner 1"} /{" "}
+            {earners[1]?.label || "Earner 2"}.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleCompare}
+          className="px-4 py-2 text-sm rounded-full font-medium bg-blue-500 text-white shadow-sm hover:bg-blue-600"
+        >
+          Compare ownership
+        </button>
+      </div>
+      {isStale && (
+        <p className="text-xs text-amber-700">
+          Inputs have changed since this comparison – compare again to update.
+        </p>
+      )}
+      {lastRun && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-4 font-medium">Investment property</th>
+                <th className="py-2 pr-4 font-medium">Portfolio</th>
+                <th className="py-2 pr-4 font-medium">Income tax paid</th>
+                <th className="py-2 pr-4 font-medium">CGT if sold</th>
+                <th className="py-2 pr-4 font-medium">Debt-free in</th>
+                <th className="py-2 font-medium">Net worth</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map((row) => {
+                const isCurrent =
+                  row.ipShare === currentIpShare &&
+                  row.portfolioShare === currentPortfolioShare;
+                return (
+                  <tr
+                    key={`${row.ipShare}-${row.portfolioShare}`}
+                    className={`border-b border-slate-100 ${isCurrent ? "bg-sky-50" : ""}`}
+                  >
+                    <td className="py-2 pr-4 text-slate-700">
+                      {ownershipLabel(row.ipShare, earners)}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-700">
+                      {ownershipLabel(row.portfolioShare, earners)}
+                      {isCurrent && (
+                        <span className="ml-2 text-[11px] text-sky-700">(current)</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-800">
+                      {formatCurrency(row.incomeTaxPaid)}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-800">
+                      {formatCurrency(row.cgtPayable)}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-800">
+                      {row.debtFreeMonths !== undefined
+                        ? formatYearsMonths(row.debtFreeMonths)
+                        : "Not within projection"}
+                    </td>
+                    <td
+                      className={`py-2 ${
+                        row.netWorth === bestNetWorth
+                          ? "text-emerald-600 font-medium"
+                          : "text-slate-800"
+                      }`}
+                    >
+                      {formatCurrency(row.netWorth)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* Home loan splits */
+function FixedSplitsEditor({
+  splits,
+  homeLoanBalance,
+  variableRate,
+  onChange,
+}: {
+  splits: FixedRateSplit[];
+  homeLoanBalance: number;
+  variableRate: number;
+  onChange: (splits: FixedRateSplit[]) => void;
+}) {
+  const fixedTotal = splits.reduce((sum, split) => sum + split.balance, 0);
+
+  const updateSplit = (index: number, changes: Partial<FixedRateSplit>) =>
+    onChange(splits.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+  const addSplit = () =>
+    onChange([
+      ...splits,
+      {
+        label: `Fixed split ${splits.length + 1}`,
+        balance: Math.max(0, Math.round((homeLoanBalance - fixedTotal) / 2)),
+        fixedRate: variableRate,
+        fixedYears: 3,
+        revertRate: variableRate,
+        extraRepaymentCapAnnual: 10_000,
+      },
+    ]);
+
+  return (
+    <div className="space-y-3">
+      {splits.map((split, index) => (
+        <div
+          key={index}
+          className="rounded-lg border border-slate-200 p-3 grid gap-3 md:grid-cols-3 items-end"
+        >
+          <InputField
+            label={`${split.label} – amount`}
+            value={split.balance}
+            onChange={(val) => updateSplit(index, { balance: val || 0 })}
+            prefix="$"
+          />
+          <InputField
+            label="Fixed rate (p.a.)"
+            value={split.fixedRate * 100}
+            onChange={(val) => updateSplit(index, { fixedRate: (val || 0) / 100 })}
+            suffix="%"
+            decimals={2}
+          />
+          <InputField
+            label="Years left fixed"
+            value={split.fixedYears}
+            onChange={(val) =>
+              updateSplit(index, { fixedYears: Math.max(0, Math.round(val || 0)) })
+            }
+            suffix="years"
+          />
+          <InputField
+            label="Reverts to (p.a.)"
+            value={split.revertRate * 100}
+            onChange={(val) => updateSplit(index, { revertRate: (val || 0) / 100 })}
+            suffix="%"
+            decimals={2}
+          />
+          <InputField
+            label="Extra repayments allowed (per year)"
+            value={split.extraRepaymentCapAnnual}
+            onChange={(val) =>
+              updateSplit(index, { extraRepaymentCapAnnual: val || 0 })
+            }
+            prefix="$"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(splits.filter((_, i) => i !== index))}
+            className="mb-1 px-3 py-2 text-xs rounded-full font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={addSplit}
+          className="px-3 py-1.5 text-xs sm:text-sm rounded-full font-medium border border-slate-200 text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+        >
+          + Add fixed split
+        </button>
+        <span className="text-[11px] text-slate-500">
+          Variable split: {formatCurrency(Math.max(0, homeLoanBalance - fixedTotal))}
+          {fixedTotal > homeLoanBalance &&
+            " – fixed splits add up to more than the loan balance"}
+        </span>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Extra repayments go to the variable split first, then to fixed splits up
+        to their yearly allowance. The offset only reduces interest on the
+        variable split.
+      </p>
+    </div>
+  );
+}
+
+/* Investment properties */
+const PURCHASE_TRIGGER_OPTIONS: { value: PurchaseTriggerKind; label: string }[] = [
+  { value: "year", label: "From a set year" },
+  { value: "equity", label: "Once usable equity reaches…" },
+  { value: "afterPrevious", label: "Years after the previous purchase" },
+];
+
+function defaultTrigger(kind: PurchaseTriggerKind): PurchaseTrigger {
+  if (kind === "year") return { kind, yearIndex: 0 };
+  if (kind === "equity") return { kind, usableEquity: 200_000 };
+  return { kind, years: 3 };
+}
+
+function newInvestmentProperty(index: number): InvestmentProperty {
+  return {
+    label: `Investment property ${index + 1}`,
+    trigger: index === 0 ? defaultTrigger("year") : defaultTrigger("afterPrevious"),
+    price: 700_000,
+    state: "NSW",
+    legalCosts: 2_000,
+    inspectionCosts: 600,
+    growthRate: 0.03,
+    rentAnnual: 35_000,
+    managementFeeRate: 0.07,
+    vacancyWeeks: 2,
+    councilStrataAnnual: 4_000,
+    insuranceAnnual: 1_500,
+    maintenanceAnnual: 2_000,
+    landValue: 350_000,
+    buildingCost: 250_000,
+    buildingAgeYears: 5,
+    plantAndEquipment: 15_000,
+    plantEffectiveLifeYears: 10,
+    loanRate: 0.06,
+    loanType: "interestOnly",
+    interestOnlyYears: 5,
+    loanTermYears: 30,
+    ownershipShare: 1,
+  };
+}
+
+function InvestmentPropertiesEditor({
+  properties,
+  earners,
+  onChange,
+}: {
+  properties: InvestmentProperty[];
+  earners: Earner[];
+  onChange: (properties: InvestmentProperty[]) => void;
+}) {
+  const updateProperty = (index: number, changes: Partial<InvestmentProperty>) =>
+    onChange(properties.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+
+  return (
+    <div className="space-y-3">
+      {properties.map((property, index) => {
+        const update = (changes: Partial<InvestmentProperty>) =>
+          updateProperty(index, changes);
+        const trigger = property.trigger;
+
+        return (
+          <div
+            key={index}
+            className="rounded-lg border border-slate-200 p-3 grid gap-3 md:grid-cols-3 items-end"
+          >
+            <label className="block text-xs">
+              <span className="mb-1.5 block text-[11px] font-medium text-slate-600">
+                Name
+              </span>
+              <input
+                type="text"
+                value={property.label}
+                onChange={(e) => update({ label: e.target.value })}
+                className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-sky-500 focus:ring-2 focus:ring-sky-500"
+              />
+            </label>
+            <SelectField
+              label="Buy"
+              value={trigger.kind}
+              options={
+                index === 0
+                  ? PURCHASE_TRIGGER_OPTIONS.filter((o) => o.value !== "afterPrevious")
+                  : PURCHASE_TRIGGER_OPTIONS
+              }
+              onChange={(val) => update({ trigger: defaultTrigger(val) })}
+              helper="…as soon as the lender would also approve it"
+            />
+            {trigger.kind === "year" && (
+              <InputField
+                label="Not before year"
+                value={trigger.yearIndex + 1}
+                onChange={(val) =>
+                  update({
+                    trigger: { kind: "year", yearIndex: Math.max(1, Math.round(val || 1)) - 1 },
+                  })
+                }
+              />
+            )}
+            {trigger.kind === "equity" && (
+              <InputField
+                label="Usable equity of at least"
+                value={trigger.usableEquity}
+                onChange={(val) =>
+                  update({ trigger: { kind: "equity", usableEquity: val || 0 } })
+                }
+                prefix="$"
+                helper="Across your home and properties already held"
+              />
+            )}
+            {trigger.kind === "afterPrevious" && (
+              <InputField
+                label="Years after the previous purchase"
+                value={trigger.years}
+                onChange={(val) =>
+                  update({
+                    trigger: { kind: "afterPrevious", years: Math.max(0, Math.round(val || 0)) },
+                  })
+                }
+                suffix="years"
+              />
+            )}
+            <InputField
+              label="Purchase price"
+              value={property.price}
+              onChange={(val) => update({ price: val || 0 })}
+              prefix="$"
+            />
+            <SelectField
+              label="State"
+              value={property.state}
+              options={AUSTRALIAN_STATE_OPTIONS}
+              onChange={(val) => update({ state: val })}
+              helper={`Stamp duty: ${formatCurrency(
+                stampDuty(property.state, property.price)
+              )} (investor rates)`}
+            />
+            <InputField
+              label="Capital growth (p.a.)"
+              value={property.growthRate * 100}
+              onChange={(val) => update({ growthRate: (val || 0) / 100 })}
+              suffix="%"
+              decimals={2}
+            />
+            <InputField
+              label="Legal & conveyancing costs"
+              value={property.legalCosts}
+              onChange={(val) => update({ legalCosts: val || 0 })}
+              prefix="$"
+            />
+            <InputField
+              label="Building & pest inspection"
+              value={property.inspectionCosts}
+              onChange={(val) => update({ inspectionCosts: val || 0 })}
+              prefix="$"
+              helper="LMI is added if all secured debt is over 80% of the security"
+            />
+            <InputField
+              label="Gross annual rent"
+              value={property.rentAnnual}
+              onChange={(val) => update({ rentAnnual: val || 0 })}
+              prefix="$"
+              helper="Fully let, before vacancy"
+            />
+            <InputField
+              label="Vacancy (weeks per year)"
+              value={property.vacancyWeeks}
+              onChange={(val) => update({ vacancyWeeks: val || 0 })}
+            />
+            <InputField
+              label="Property management fee"
+              value={property.managementFeeRate * 100}
+              onChange={(val) => update({ managementFeeRate: (val || 0) / 100 })}
+              suffix="%"
+              decimals={2}
+              helper="Of the rent collected"
+            />
+            <InputField
+              label="Council rates, water & strata (p.a.)"
+              value={property.councilStrataAnnual}
+              onChange={(val) => update({ councilStrataAnnual: val || 0 })}
+              prefix="$"
+            />
+            <InputField
+              label="Landlord insurance (p.a.)"
+              value={property.insuranceAnnual}
+              onChange={(val) => update({ insuranceAnnual: val || 0 })}
+              prefix="$"
+            />
+            <InputField
+              label="Maintenance & repairs (p.a.)"
+              value={property.maintenanceAnnual}
+              onChange={(val) => update({ maintenanceAnnual: val || 0 })}
+              prefix="$"
+            />
+            <InputField
+              label="Land value"
+              value={property.landValue}
+              onChange={(val) => update({ landValue: val || 0 })}
+              prefix="$"
+              helper={`Land tax on this land alone: ${formatCurrency(
+                landTax(property.state, property.landValue)
+              )} a year at today’s value`}
+            />
+            <InputField
+              label="Building construction cost (Div 43)"
+              value={property.buildingCost}
+              onChange={(val) => update({ buildingCost: val || 0 })}
+              prefix="$"
+            />
+            <InputField
+              label="Building age at purchase (years)"
+              value={property.buildingAgeYears}
+              onChange={(val) => update({ buildingAgeYears: val || 0 })}
+              helper="Capital works are claimed until the building is 40"
+            />
+            <InputField
+              label="Plant & equipment value (Div 40)"
+              value={property.plantAndEquipment}
+              onChange={(val) => update({ plantAndEquipment: val || 0 })}
+              prefix="$"
+            />
+            <InputField
+              label="Plant effective life (years)"
+              value={property.plantEffectiveLifeYears}
+              onChange={(val) => update({ plantEffectiveLifeYears: val || 0 })}
+            />
+            <InputField
+              label="Loan rate (p.a.)"
+              value={property.loanRate * 100}
+              onChange={(val) => update({ loanRate: (val || 0) / 100 })}
+              suffix="%"
+              decimals={2}
+            />
+            <SelectField
+              label="Loan type"
+              value={property.loanType}
+              options={LOAN_TYPE_OPTIONS}
+              onChange={(val) => update({ loanType: val })}
+            />
+            {property.loanType === "interestOnly" && (
+              <InputField
+                label="Interest-only period"
+                value={property.interestOnlyYears}
+                onChange={(val) => update({ interestOnlyYears: val || 0 })}
+                suffix="years"
+                helper="Then principal & interest for the rest of the term"
+              />
+            )}
+            <InputField
+              label="Loan term"
+              value={property.loanTermYears}
+              onChange={(val) => update({ loanTermYears: val || 0 })}
+              suffix="years"
+            />
+            {earners.length > 1 && (
+              <InputField
+                label={`Share in ${earners[0].label || "Earner 1"}'s name`}
+                value={property.ownershipShare * 100}
+                onChange={(val) =>
+                  update({ ownershipShare: Math.min(100, val || 0) / 100 })
+                }
+                suffix="%"
+                helper="Rent, deductions and CGT are split in this ratio"
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => onChange(properties.filter((_, i) => i !== index))}
+              className="mb-1 px-3 py-2 text-xs rounded-full font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...properties, newInvestmentProperty(properties.length)])}
+        className="px-3 py-1.5 text-xs sm:text-sm rounded-full font-medium border border-slate-200 text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+      >
+        + Add investment property
+      </button>
+      <p className="text-[11px] text-slate-500">
+        Properties are bought in list order, each in the first year from its
+        trigger that the lender’s equity and serviceability tests pass. Equity
+        in the home and any properties already held can fund the next deposit.
+      </p>
+    </div>
+  );
+}
+
+/* Refinancing */
+const REFINANCE_TARGET_OPTIONS: { value: RefinanceTarget; label: string }[] = [
+  { value: "homeLoan", label: "Home loan" },
+  { value: "ipLoan", label: "Investment property loans" },
+  { value: "both", label: "All loans" },
+];
+
+function RefinanceEditor({
+  events,
+  homeLoanRate,
+  onChange,
+}: {
+  events: RefinanceEvent[];
+  homeLoanRate: number;
+  onChange: (events: RefinanceEvent[]) => void;
+}) {
+  const updateEvent = (index: number, changes: Partial<RefinanceEvent>) =>
+    onChange(events.map((e, i) => (i === index ? { ...e, ...changes } : e)));
+
+  const addEvent = () =>
+    onChange([
+      ...events,
+      {
+        yearIndex: 2,
+        target: "homeLoan",
+        newRate: Math.max(0, homeLoanRate - 0.005),
+        newTermYears: 25,
+        dischargeFee: 350,
+        applicationFee: 600,
+        cashback: 3_000,
+      },
+    ]);
+
+  return (
+    <div className="space-y-3">
+      {events.map((event, index) => (
+        <div
+          key={index}
+          className="rounded-lg border border-slate-200 p-3 grid gap-3 md:grid-cols-4 items-end"
+        >
+          <InputField
+            label="Refinance in year"
+            value={event.yearIndex + 1}
+            onChange={(val) =>
+              updateEvent(index, { yearIndex: Math.max(1, Math.round(val || 1)) - 1 })
+            }
+          />
+          <SelectField
+            label="Loan"
+            value={event.target}
+            options={REFINANCE_TARGET_OPTIONS}
+            onChange={(val) => updateEvent(index, { target: val })}
+          />
+          <InputField
+            label="New rate (p.a.)"
+            value={event.newRate * 100}
+            onChange={(val) => updateEvent(index, { newRate: (val || 0) / 100 })}
+            suffix="%"
+            decimals={2}
+          />
+          <InputField
+            label="New term"
+            value={event.newTermYears}
+            onChange={(val) =>
+              updateEvent(index, { newTermYears: Math.max(1, Math.round(val || 1)) })
+            }
+            suffix="years"
+          />
+          <InputField
+            label="Discharge fee"
+            value={event.dischargeFee}
+            onChange={(val) => updateEvent(index, { dischargeFee: val || 0 })}
+            prefix="$"
+          />
+          <InputField
+            label="Application fee"
+            value={event.applicationFee}
+            onChange={(val) => updateEvent(index, { applicationFee: val || 0 })}
+            prefix="$"
+          />
+          <InputField
+            label="Cashback"
+            value={event.cashback}
+            onChange={(val) => updateEvent(index, { cashback: val || 0 })}
+            prefix="$"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(events.filter((_, i) => i !== index))}
+            className="mb-1 px-3 py-2 text-xs rounded-full font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addEvent}
+        className="px-3 py-1.5 text-xs sm:text-sm rounded-full font-medium border border-slate-200 text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+      >
+        + Add refinance
+      </button>
+    </div>
+  );
+}
+
+function RefinanceAnalysisPanel({
+  analysis,
+  events,
+}: {
+  analysis: RefinanceAnalysis[];
+  events: RefinanceEvent[];
+}) {
+  const shiftLabel = (months?: number) => {
+    if (months === undefined) return "-";
+    if (months === 0) return "No change";
+    return `${formatYearsMonths(Math.abs(months))} ${months < 0 ? "sooner" : "later"}`;
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 space-y-4 shadow-sm">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">
+          Refinancing vs staying put
+        </h3>
+        <p className="text-xs text-slate-600 mt-1">
+          Each refinance compared with the same plan if you stayed with your
+          current lender.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs sm:text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-4 font-medium">Refinance</th>
+              <th className="py-2 pr-4 font-medium">Switching costs</th>
+              <th className="py-2 pr-4 font-medium">Interest saved</th>
+              <th className="py-2 pr-4 font-medium">Breaks even</th>
+              <th className="py-2 font-medium">Debt-free</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.map((row) => {
+              const event = events[row.eventIndex];
+              return (
+                <tr key={row.eventIndex} className="border-b border-slate-100">
+                  <td className="py-2 pr-4 text-slate-700">
+                    Year {event.yearIndex + 1} –{" "}
+                    {REFINANCE_TARGET_OPTIONS.find((o) => o.value === event.target)?.label}{" "}
+                    at {formatPercent(event.newRate * 100)}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-800">
+                    {formatCurrency(row.switchingCosts)}
+                  </td>
+                  <td
+                    className={`py-2 pr-4 ${
+                      row.interestSaved > 0 ? "text-emerald-600 font-medium" : "text-slate-800"
+                    }`}
+                  >
+                    {formatCurrency(row.interestSaved)}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-800">
+                    {row.breakEvenYearIndex !== undefined
+                      ? `Year ${row.breakEvenYearIndex + 1}`
+                      : "Not within projection"}
+                  </td>
+                  <td className="py-2 text-slate-800">
+                    {shiftLabel(row.debtFreeShiftMonths)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/* Life events */
+const LIFE_EVENT_LABELS: Record<LifeEventKind, string> = {
+  lumpSum: "One-off amount",
+  incomeChange: "Income change",
+  expenseChange: "Expense change",
+};
+
+// Amounts are stored signed; the editor shows a direction + a positive amount
+type LifeEventDirection = "in" | "out";
+
+const LIFE_EVENT_DIRECTION_OPTIONS: { value: LifeEventDirection; label: string }[] = [
+  { value: "in", label: "Money in" },
+  { value: "out", label: "Money out" },
+];
+
+const EXPENSE_CHANGE_DIRECTION_OPTIONS: { value: LifeEventDirection; label: string }[] = [
+  { value: "in", label: "Increase" },
+  { value: "out", label: "Decrease" },
+];
+
+const LIFE_EVENT_MARKER_LABEL = "Life events";
+
+function newLifeEvent(kind: LifeEventKind, yearIndex: number): LifeEvent {
+  switch (kind) {
+    case "lumpSum":
+      return { kind, label: "Bonus", yearIndex, amount: 10_000 };
+    case "incomeChange":
+      return { kind, label: "Parental leave", yearIndex, years: 1, incomeFactor: 0.5 };
+    case "expenseChange":
+      return { kind, label: "School fees", yearIndex, annualAmount: 12_000 };
+  }
+}
+
+function describeLifeEvent(event: LifeEvent): string {
+  switch (event.kind) {
+    case "lumpSum":
+      return `${event.label}: ${formatCurrency(event.amount)}`;
+    case "incomeChange":
+      return `${event.label}: ${formatPercent(event.incomeFactor * 100)} of salary for ${event.years} year${event.years === 1 ? "" : "s"}`;
+    case "expenseChange":
+      return `${event.label}: ${event.annualAmount >= 0 ? "+" : ""}${formatCurrency(event.annualAmount)} p.a.`;
+  }
+}
+
+// Scatter-style dataset that drops a marker on `valueAt` in each event year
+function lifeEventMarkers(
+  labelCount: number,
+  events: LifeEvent[],
+  valueAt: (yearIndex: number) => number | null
+) {
+  const eventYears = new Set(events.map((e) => e.yearIndex));
+  return {
+    label: LIFE_EVENT_MARKER_LABEL,
+    data: Array.from({ length: labelCount }, (_, i) =>
+      eventYears.has(i) ? valueAt(i) : null
+    ),
+    showLine: false,
+    pointStyle: "triangle" as const,
+    pointRadius: 7,
+    pointHoverRadius: 9,
+    borderColor: "rgb(217, 119, 6)",
+    backgroundColor: "rgba(245, 158, 11, 0.9)",
+  };
+}
+
+function lifeEventTooltip(events: LifeEvent[], yearIndex: number): string[] {
+  return events.filter((e) => e.yearIndex === yearIndex).map(describeLifeEvent);
+}
+
+function LifeEventsEditor({
+  events,
+  earners,
+  projectionYears,
+  onChange,
+}: {
+  events: LifeEvent[];
+  earners: Earner[];
+  projectionYears: number;
+  onChange: (events: LifeEvent[]) => void;
+}) {
+  const [selectedYear, setSelectedYear] = useState(0);
+
+  const sorted = events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.yearIndex - b.event.yearIndex);
+
+  const updateEvent = (index: number, event: LifeEvent) =>
+    onChange(events.map((e, i) => (i === index ? event : e)));
+
+  return (
+    <div className="space-y-3">
+      {/* Timeline: click a year to add events there */}
+      <div className="flex gap-0.5 overflow-x-auto pb-1">
+        {Array.from({ length: projectionYears }, (_, yearIndex) => {
+          const count = events.filter((e) => e.yearIndex === yearIndex).length;
+          return (
+            <button
+              key={yearIndex}
+              type="button"
+              onClick={() => setSelectedYear(yearIndex)}
+              title={lifeEventTooltip(events, yearIndex).join("\n") || `Year ${yearIndex + 1}`}
+              className={`flex h-9 min-w-[1.75rem] flex-col items-center justify-center rounded text-[10px] ${
+                yearIndex === selectedYear
+                  ? "bg-blue-500 text-white"
+                  : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+              }`}
+            >
+              {yearIndex + 1}
+              {count > 0 && (
+                <span
+                  className={`mt-0.5 h-1.5 w-1.5 rounded-full ${
+                    yearIndex === selectedYear ? "bg-white" : "bg-amber-500"
+                  }`}
+                />
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[11px] text-slate-500">Add in year {selectedYear + 1}:</span>
+        {(Object.keys(LIFE_EVENT_LABELS) as LifeEventKind[]).map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => onChange([...events, newLifeEvent(kind, selectedYear)])}
+            className="px-3 py-1.5 text-xs rounded-full font-medium border border-slate-200 text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+          >
+            + {LIFE_EVENT_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {sorted.map(({ event, index }) => (
+        <div
+          key={index}
+          className="rounded-lg border border-slate-200 p-3 grid gap-3 md:grid-cols-4 items-end"
+        >
+          <label className="block text-xs">
+            <span className="mb-1.5 block text-[11px] font-medium text-slate-600">
+              {LIFE_EVENT_LABELS[event.kind]}
+            </span>
+            <input
+              type="text"
+              value={event.label}
+              onChange={(e) => updateEvent(index, { ...event, label: e.target.value })}
+              className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-sky-500 focus:ring-2 focus:ring-sky-500"
+            />
+          </label>
+          <InputField
+            label="Year"
+            value={event.yearIndex + 1}
+            onChange={(val) =>
+              updateEvent(index, {
+                ...event,
+                yearIndex:
+                  Math.min(projectionYears, Math.max(1, Math.round(val || 1))) - 1,
+              })
+            }
+          />
+          {event.kind === "lumpSum" && (
+            <div className="grid grid-cols-2 gap-3">
+              <SelectField
+                label="Direction"
+                value={event.amount < 0 ? "out" : "in"}
+                options={LIFE_EVENT_DIRECTION_OPTIONS}
+                onChange={(val) =>
+                  updateEvent(index, {
+                    ...event,
+                    amount: (val === "out" ? -1 : 1) * Math.abs(event.amount),
+                  })
+                }
+              />
+              <InputField
+                label="Amount"
+                value={Math.abs(event.amount)}
+                onChange={(val) =>
+                  updateEvent(index, {
+                    ...event,
+                    amount: (event.amount < 0 ? -1 : 1) * (val || 0),
+                  })
+                }
+                prefix="$"
+              />
+            </div>
+          )}
+          {event.kind === "incomeChange" && earners.length > 1 && (
+            <SelectField
+              label="Whose salary"
+              value={event.earnerIndex === undefined ? "all" : String(event.earnerIndex)}
+              options={[
+                { value: "all", label: "Everyone" },
+                ...earners.map((earner, i) => ({
+                  value: String(i),
+                  label: earner.label || `Earner ${i + 1}`,
+                })),
+              ]}
+              onChange={(val) =>
+                updateEvent(index, {
+                  ...event,
+                  earnerIndex: val === "all" ? undefined : Number(val),
+                })
+              }
+            />
+          )}
+          {event.kind === "incomeChange" && (
+            <div className="grid grid-cols-2 gap-3">
+              <InputField
+                label="Salary earned"
+                value={event.incomeFactor * 100}
+                onChange={(val) =>
+                  updateEvent(index, { ...event, incomeFactor: Math.max(0, val || 0) / 100 })
+                }
+                suffix="%"
+              />
+              <InputField
+                label="For"
+                value={event.years}
+                onChange={(val) =>
+                  updateEvent(index, { ...event, years: Math.max(1, Math.round(val || 1)) })
+                }
+                suffix="years"
+              />
+            </div>
+          )}
+          {event.kind === "expenseChange" && (
+            <div className="grid grid-cols-2 gap-3">
+              <SelectField
+                label="Living costs"
+                value={event.annualAmount < 0 ? "out" : "in"}
+                options={EXPENSE_CHANGE_DIRECTION_OPTIONS}
+                onChange={(val) =>
+                  updateEvent(index, {
+                    ...event,
+                    annualAmount: (val === "out" ? -1 : 1) * Math.abs(event.annualAmount),
+                  })
+                }
+              />
+              <InputField
+                label="Per year"
+                value={Math.abs(event.annualAmount)}
+                onChange={(val) =>
+                  updateEvent(index, {
+                    ...event,
+                    annualAmount: (event.annualAmount < 0 ? -1 : 1) * (val || 0),
+                  })
+                }
+                prefix="$"
+              />
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(events.filter((_, i) => i !== index))}
+            className="mb-1 px-3 py-2 text-xs rounded-full font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <p className="text-[11px] text-slate-500">
+        Amounts are after tax and in that year&apos;s dollars. Expense changes
+        are permanent and grow with inflation; income changes scale your salary
+        for the years chosen.
+      </p>
+    </div>
+  );
+}
+
+/* Interest rate schedule + stress test */
+const RATE_SHOCK_PRESETS: { value: string; label: string; shocks: RateShock[] }[] = [
+  { value: "none", label: "No rate shock", shocks: [] },
+  {
+    value: "plus1",
+    label: "+1% from year 2 onwards",
+    shocks: [{ startYearIndex: 1, years: Infinity, shift: 0.01 }],
+  },
+  {
+    value: "plus2for3",
+    label: "+2% for three years from year 2",
+    shocks: [{ startYearIndex: 1, years: 3, shift: 0.02 }],
+  },
+  {
+    value: "plus3for2",
+    label: "+3% for two years from year 2",
+    shocks: [{ startYearIndex: 1, years: 2, shift: 0.03 }],
+  },
+];
+
+function RateScheduleEditor({
+  schedule,
+  baseRate,
+  onChange,
+}: {
+  schedule: RateSchedule;
+  baseRate: number;
+  onChange: (schedule: RateSchedule) => void;
+}) {
+  const presetValue =
+    RATE_SHOCK_PRESETS.find(
+      (preset) => JSON.stringify(preset.shocks) === JSON.stringify(schedule.shocks)
+    )?.value ?? "none";
+
+  const updateStep = (index: number, step: RateStep) =>
+    onChange({
+      ...schedule,
+      steps: schedule.steps.map((s, i) => (i === index ? step : s)),
+    });
+
+  const addStep = () => {
+    const last = schedule.steps[schedule.steps.length - 1];
+    onChange({
+      ...schedule,
+      steps: [
+        ...schedule.steps,
+        { yearIndex: last ? last.yearIndex + 1 : 1, rate: last?.rate ?? baseRate },
+      ],
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 md:grid-cols-3">
+        <SelectField
+          label="Rate shock"
+          value={presetValue}
+          options={RATE_SHOCK_PRESETS}
+          onChange={(val) =>
+            onChange({
+              ...schedule,
+              shocks:
+                RATE_SHOCK_PRESETS.find((preset) => preset.value === val)
+                  ?.shocks ?? [],
+            })
+          }
+          helper="Added on top of the rate changes below. Applies to every loan."
+        />
+      </div>
+
+      {schedule.steps.map((step, index) => (
+        <div key={index} className="grid gap-3 grid-cols-[1fr_1fr_auto] items-end">
+          <InputField
+            label="From year"
+            value={step.yearIndex + 1}
+            onChange={(val) =>
+              updateStep(index, {
+                ...step,
+                yearIndex: Math.max(1, Math.round(val || 1)) - 1,
+              })
+            }
+          />
+          <InputField
+            label="Home loan rate"
+            value={step.rate * 100}
+            onChange={(val) =>
+              updateStep(index, { ...step, rate: (val || 0) / 100 })
+            }
+            suffix="%"
+            decimals={2}
+          />
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...schedule,
+                steps: schedule.steps.filter((_, i) => i !== index),
+              })
+            }
+            className="mb-1 px-3 py-2 text-xs rounded-full font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addStep}
+        className="px-3 py-1.5 text-xs sm:text-sm rounded-full font-medium border border-slate-200 text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+      >
+        + Add rate change
+      </button>
+      <p className="text-[11px] text-slate-500">
+        Each change sets the home loan rate from that year on (add one per
+        year for a full rate table); the IP and recycled loans move by the
+        same amount. Minimum repayments are recalculated over the remaining
+        term whenever the rate changes.
+      </p>
+    </div>
+  );
+}
+
+function RateStressTestPanel({
+  baseInputs,
+  tipInputs,
+  assumptionInputs,
+  debtFreeMonths,
+}: {
+  baseInputs: BaseInputs;
+  tipInputs: TipInputs;
+  assumptionInputs: Partial<Assumptions>;
+  debtFreeMonths?: number;
+}) {
+  const [showResults, setShowResults] = useState(false);
+
+  const results = useMemo(
+    () =>
+      showResults
+        ? runRateStressTest(baseInputs, tipInputs, assumptionInputs)
+        : [],
+    [showResults, baseInputs, tipInputs, assumptionInputs]
+  );
+
+  const shiftLabel = (result: RateStressResult) => {
+    if (result.debtFreeShiftMonths === undefined) return "Not debt-free in projection";
+    if (result.debtFreeShiftMonths === 0) return "No change";
+    const direction = result.debtFreeShiftMonths > 0 ? "later" : "sooner";
+    return `${formatYearsMonths(Math.abs(result.debtFreeShiftMonths))} ${direction}`;
+  };
+
+  const worstYearCell = (amount: number, yearIndex: number | undefined, danger: boolean) => (
+    <td
+      className={`py-2 pr-4 ${
+        amount > 0 && danger ? "text-red-600 font-medium" : "text-slate-800"
+      }`}
+    >
+      {amount > 0
+        ? `${formatCurrency(amount)} (year ${(yearIndex ?? 0) + 1})`
+        : "None"}
+    </td>
+  );
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 space-y-4 shadow-sm">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h3 className="text-base font-semibold text-slate-900">
+            Interest rate stress test
+          </h3>
+          <p className="text-xs text-slate-600 mt-1">
+            What if every loan rate were 1%, 2% or 3% higher for the whole
+            projection?
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowResults((prev) => !prev)}
+          className="px-4 py-2 text-sm rounded-full font-medium bg-blue-500 text-white shadow-sm hover:bg-blue-600"
+        >
+          {showResults ? "Hide stress test" : "Stress test rates"}
+        </button>
+      </div>
+
+      {showResults && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-4 font-medium">Rates</th>
+                <th className="py-2 pr-4 font-medium">Debt-free in</th>
+                <th className="py-2 pr-4 font-medium">Change</th>
+                <th className="py-2 pr-4 font-medium">Worst-year deficit (from offset)</th>
+                <th className="py-2 pr-4 font-medium">Worst-year unfunded shortfall</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-slate-100">
+                <td className="py-2 pr-4 text-slate-700">As entered</td>
+                <td className="py-2 pr-4 text-slate-800">
+                  {debtFreeMonths !== undefined
+                    ? formatYearsMonths(debtFreeMonths)
+                    : "Not in projection"}
+                </td>
+                <td className="py-2 pr-4 text-slate-500">-</td>
+                <td className="py-2 pr-4 text-slate-500">-</td>
+                <td className="py-2 pr-4 text-slate-500">-</td>
+              </tr>
+              {results.map((result) => (
+                <tr key={result.rateShift} className="border-b border-slate-100">
+                  <td className="py-2 pr-4 text-slate-700">
+                    +{formatPercent(result.rateShift * 100)}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-800">
+                    {result.debtFreeMonths !== undefined
+                      ? formatYearsMonths(result.debtFreeMonths)
+                      : "Not in projection"}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-800">{shiftLabel(result)}</td>
+                  {worstYearCell(result.worstDeficit, result.worstDeficitYearIndex, false)}
+                  {worstYearCell(result.worstShortfall, result.worstShortfallYearIndex, true)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-slate-500 mt-2">
+            A deficit is drawn from the offset above your emergency fund; an
+            unfunded shortfall is what the offset can&apos;t cover.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* Goal seek ("Solve for…") */
+const GOAL_SEEK_OPTIONS: { value: GoalSeekVariable; label: string }[] = [
+  { value: "extraRepayment", label: "Extra repayments per month (Strategy 1)" },
+  { value: "ipPrice", label: "Investment property price (Strategy 5)" },
+  { value: "recycleAmount", label: "Debt recycling kick-off (Strategy 6)" },
+];
+
+function GoalSeekPanel({
+  baseInputs,
+  tipInputs,
+  assumptionInputs,
+  onApply,
+}: {
+  baseInputs: BaseInputs;
+  tipInputs: TipInputs;
+  assumptionInputs: Partial<Assumptions>;
+  onApply: (tips: TipInputs) => void;
+}) {
+  const [settings, setSettings] = useState<GoalSeekSettings>(() =>
+    defaultGoalSeekSettings()
+  );
+
+  // Remember which inputs the answer was solved for so we can flag it as stale
+  const [lastRun, setLastRun] = useState<{
+    result: GoalSeekResult;
+    settings: GoalSeekSettings;
+    baseInputs: BaseInputs;
+    tipInputs: TipInputs;
+    assumptionInputs: Partial<Assumptions>;
+  } | null>(null);
+
+  const isStale =
+    lastRun !== null &&
+    (lastRun.baseInputs !== baseInputs ||
+      lastRun.tipInputs !== tipInputs ||
+      lastRun.assumptionInputs !== assumptionInputs ||
+      lastRun.settings !== settings);
+
+  const properties = tipInputs.tip5_properties;
+  const needsProperty = settings.variable === "ipPrice" && properties.length === 0;
+
+  const handleSolve = () =>
+    setLastRun({
+      result: runGoalSeek(baseInputs, tipInputs, assumptionInputs, settings),
+      settings,
+      baseInputs,
+      tipInputs,
+      assumptionInputs,
+    });
+
+  const result = lastRun?.result;
+  const solvedFor = lastRun?.settings ?? settings;
+  const formatValue = (value: number) =>
+    solvedFor.variable === "extraRepayment"
+      ? `${formatCurrency(value)}/month`
+      : formatCurrency(value);
+  const currentValue = currentGoalSeekValue(tipInputs, solvedFor);
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 space-y-4 shadow-sm">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">Solve for…</h3>
+        <p className="text-xs text-slate-600 mt-1">
+          Start from the goal: pick a debt-free target and one input, and find
+          the smallest amount of it that gets you there.
+        </p>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <InputField
+          label="Debt-free within"
+          value={settings.targetYears}
+          onChange={(val) =>
+            setSettings((prev) => ({
+              ...prev,
+              targetYears: Math.max(1, Math.round(val || 1)),
+            }))
+          }
+          suffix="years"
+        />
+        <SelectField
+          label="By changing"
+          value={settings.variable}
+          options={GOAL_SEEK_OPTIONS}
+          onChange={(variable) =>
+            setSettings((prev) => ({
+              ...defaultGoalSeekSettings(variable, prev.targetYears),
+              propertyIndex: prev.propertyIndex,
+            }))
+          }
+          helper="Its strategy is switched on for the search"
+        />
+        {settings.variable === "ipPrice" && properties.length > 1 && (
+          <SelectField
+            label="Property"
+            value={String(Math.min(settings.propertyIndex, properties.length - 1))}
+            options={properties.map((property, i) => ({
+              value: String(i),
+              label: property.label || `Property ${i + 1}`,
+            }))}
+            onChange={(val) =>
+              setSettings((prev) => ({ ...prev, propertyIndex: Number(val) }))
+            }
+            helper="Rent, land value and depreciation scale with the price"
+          />
+        )}
+        <InputField
+          label="Search from"
+          value={settings.min}
+          onChange={(val) => setSettings((prev) => ({ ...prev, min: val || 0 }))}
+          prefix="$"
+        />
+        <InputField
+          label="Search up to"
+          value={settings.max}
+          onChange={(val) => setSettings((prev) => ({ ...prev, max: val || 0 }))}
+          prefix="$"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSolve}
+          disabled={needsProperty}
+          className="px-4 py-2 text-sm rounded-full font-medium bg-blue-500 text-white shadow-sm hover:bg-blue-600 disabled:opacity-60"
+        >
+          Solve
+        </button>
+        {needsProperty && (
+          <span className="text-xs text-slate-500">
+            Add an investment property first.
+          </span>
+        )}
+        {isStale && (
+          <span className="text-xs text-amber-700">
+            Inputs have changed since this answer – solve again to update.
+          </span>
+        )}
+      </div>
+
+      {result && (
+        <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-2">
+          {result.status === "beyondBounds" ? (
+            <p className="text-xs sm:text-sm text-slate-700">
+              Nothing between {formatValue(solvedFor.min)} and{" "}
+              {formatValue(solvedFor.max)} clears the home loan within{" "}
+              {solvedFor.targetYears} years
+              {result.debtFreeMonths !== undefined
+                ? ` – the soonest is ${formatYearsMonths(
+                    result.debtFreeMonths
+                  )}, at ${formatValue(result.value)}`
+                : ""}
+              . Try a later target, a wider range or a different input.
+            </p>
+          ) : result.status === "noFeasibleValue" ? (
+            <p className="text-xs sm:text-sm text-red-600 font-medium">
+              No amount in this range reaches the target on your cashflow.
+              From {formatValue(result.value)} the home loan is cleared in
+              time, but that leaves a shortfall of{" "}
+              {formatCurrency(result.worstShortfall)} in year{" "}
+              {(result.worstShortfallYearIndex ?? 0) + 1} that your offset
+              can&apos;t cover.
+            </p>
+          ) : (
+            <>
+              <ResultRow
+                label="Smallest amount that reaches the target"
+                value={formatValue(result.value)}
+                highlight
+              />
+              {currentValue !== undefined && (
+                <ResultRow label="In your plan now" value={formatValue(currentValue)} />
+              )}
+              <ResultRow
+                label="Debt-free in"
+                value={
+                  result.debtFreeMonths !== undefined
+                    ? formatYearsMonths(result.debtFreeMonths)
+                    : "Not within projection period"
+                }
+              />
+              {result.nonMonotonic && (
+                <p className="text-xs text-amber-700">
+                  Some larger amounts miss the target again (for example
+                  where stamp duty, LMI or land tax step up, or the lender
+                  stops approving the purchase), so check any amount above
+                  this one before relying on it.
+                </p>
+              )}
+              {!isStale && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    onApply(withGoalSeekValue(tipInputs, solvedFor, result.value))
+                  }
+                  className="px-3 py-1.5 text-xs sm:text-sm rounded-full font-medium border border-slate-200 text-slate-700 hover:bg-slate-100 hover:text-slate-900"
+                >
+                  Use this in my plan
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* Strategy optimiser */
+const OPTIMISER_OBJECTIVE_OPTIONS: { value: OptimiserObjective; label: string }[] = [
+  { value: "earliestDebtFree", label: "Earliest debt-free date" },
+  { value: "netWorth", label: "Highest net worth in a given year" },
+];
+
+function OptimiserPanel({
+  baseInputs,
+  tipInputs,
+  assumptionInputs,
+  onApply,
+}: {
+  baseInputs: BaseInputs;
+  tipInputs: TipInputs;
+  assumptionInputs: Partial<Assumptions>;
+  onApply: (tips: TipInputs) => void;
+}) {
+  const [settings, setSettings] = useState<OptimiserSettings>(() =>
+    defaultOptimiserSettings(tipInputs)
+  );
+  const job = useWorkerJob<OptimiserRequest, number, OptimiserResult>({
+    createWorker: () =>
+      new Worker(new URL("../lib/optimiser.worker.ts", import.meta.url)),
+    runHere: runOptimiser,
+    failureMessage: "The optimiser couldn't finish with these inputs.",
+  });
+
+  // Remember which inputs the plans were found for so we can flag them as stale
+  const [lastRun, setLastRun] = useState<{
+    result: OptimiserResult;
+    settings: OptimiserSettings;
+    baseInputs: BaseInputs;
+    tipInputs: TipInputs;
+    assumptionInputs: Partial<Assumptions>;
+  } | null>(null);
+
+  const isStale =
+    lastRun !== null &&
+    (lastRun.baseInputs !== baseInputs ||
+      lastRun.tipInputs !== tipInputs ||
+      lastRun.assumptionInputs !== assumptionInputs ||
+      lastRun.settings !== settings);
+
+  const properties = tipInputs.tip5_properties;
+
+  const handleRun = () => {
+    const request: OptimiserRequest = {
+      base: baseInputs,
+      tips: tipInputs,
+      customAssumptions: assumptionInputs,
+      settings: {
+        ...settings,
+        ranges: {
+          ...settings.ranges,
+          ipPrice: {
+            ...settings.ranges.ipPrice,
+            enabled: settings.ranges.ipPrice.enabled && properties.length > 0,
+          },
+        },
+      },
+    };
+    job.start(request, 0, (result) =>
+      setLastRun({ result, settings, baseInputs, tipInputs, assumptionInputs })
+    );
+  };
+
+  const updateRange = (variable: GoalSeekVariable, changes: Partial<OptimiserRange>) =>
+    setSettings((prev) => ({
+      ...prev,
+      ranges: { ...prev.ranges, [variable]: { ...prev.ranges[variable], ...changes } },
+    }));
+
+  const result = lastRun?.result;
+  const searched = OPTIMISER_VARIABLES.filter(
+    (variable) => result?.plans[0]?.values[variable] !== undefined
+  );
+  const formatValue = (variable: GoalSeekVariable, value?: number) => {
+    if (value === undefined) return "-";
+    return variable === "extraRepayment"
+      ? `${formatCurrency(value)}/month`
+      : formatCurrency(value);
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 space-y-4 shadow-sm">
+      <div>
+        <h3 className="text-base font-semibold text-slate-900">Strategy optimiser</h3>
+        <p className="text-xs text-slate-600 mt-1">
+          Search combinations of extra repayments, property price and recycling
+          kick-off for the best plans that never leave a year with negative
+          surplus cashflow.
+        </p>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <SelectField
+          label="Aim for"
+          value={settings.objective}
+          options={OPTIMISER_OBJECTIVE_OPTIONS}
+          onChange={(objective) => setSettings((prev) => ({ ...prev, objective }))}
+        />
+        {settings.objective === "netWorth" && (
+          <InputField
+            label="Net worth at year"
+            value={settings.netWorthYearIndex + 1}
+            onChange={(val) =>
+              setSettings((prev) => ({
+                ...prev,
+                netWorthYearIndex: Math.max(0, Math.round(val || 1) - 1),
+              }))
+            }
+          />
+        )}
+        {settings.ranges.ipPrice.enabled && properties.length > 1 && (
+          <SelectField
+            label="Property"
+            value={String(Math.min(settings.propertyIndex, properties.length - 1))}
+            options={properties.map((property, i) => ({
+              value: String(i),
+              label: property.label || `Property ${i + 1}`,
+            }))}
+            onChange={(val) =>
+              setSettings((prev) => ({ ...prev, propertyIndex: Number(val) }))
+            }
+          />
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {OPTIMISER_VARIABLES.map((variable) => {
+          const range = settings.ranges[variable];
+          const unavailable = variable === "ipPrice" && properties.length === 0;
+          return (
+            <div key={variable} className="grid gap-3 md:grid-cols-3 md:items-end">
+              <div className="pb-1.5">
+                <ToggleField
+                  label={
+                    GOAL_SEEK_OPTIONS.find((option) => option.value === variable)?.label ??
+                    variable
+                  }
+                  checked={range.enabled && !unavailable}
+                  onChange={(enabled) => updateRange(variable, { enabled })}
+                />
+              </div>
+              {range.enabled && !unavailable && (
+                <>
+                  <InputField
+                    label="From"
+                    value={range.min}
+                    onChange={(val) => updateRange(variable, { min: val || 0 })}
+                    prefix="$"
+                  />
+                  <InputField
+                    label="Up to"
+                    value={range.max}
+                    onChange={(val) => updateRange(variable, { max: val || 0 })}
+                    prefix="$"
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={job.isRunning}
+          className="px-4 py-2 text-sm rounded-full font-medium bg-blue-500 text-white shadow-sm hover:bg-blue-600 disabled:opacity-60"
+        >
+          {job.isRunning
+            ? `Optimising… (${job.progress} plans tested)`
+            : "Find the best plans"}
+        </button>
+        {isStale && (
+          <span className="text-xs text-amber-700">
+            Inputs have changed since this search – run again to update.
+          </span>
+        )}
+        {job.error && <span className="text-xs text-red-600 font-medium">{job.error}</span>}
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          {result.plans.length === 0 ? (
+            <p className="text-xs sm:text-sm text-slate-700">
+              None of the {result.simulations} plans tested kept surplus
+              cashflow positive every year. Try lower ranges or switch an
+              input off.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4 font-medium">Plan</th>
+                    {searched.includes("extraRepayment") && (
+                      <th className="py-2 pr-4 font-medium">Extra repayments</th>
+                    )}
+                    {searched.includes("ipPrice") && (
+                      <th className="py-2 pr-4 font-medium">Property price</th>
+                    )}
+                    {searched.includes("recycleAmount") && (
+                      <th className="py-2 pr-4 font-medium">Recycling kick-off</th>
+                    )}
+                    <th className="py-2 pr-4 font-medium">Debt-free in</th>
+                    <th className="py-2 pr-4 font-medium">Net worth</th>
+                    <th className="py-2 pr-4 font-medium">Tightest year</th>
+                    <th className="py-2 pr-4 font-medium">Interest paid</th>
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.plans.map((plan, i) => (
+                    <tr key={JSON.stringify(plan.values)} className="border-b border-slate-100">
+                      <td className="py-2 pr-4 text-slate-700">{i + 1}</td>
+                      {searched.map((variable) => (
+                        <td key={variable} className="py-2 pr-4 text-slate-800">
+                          {formatValue(variable, plan.values[variable])}
+                        </td>
+                      ))}
+                      <td className="py-2 pr-4 text-slate-800">
+                        {plan.debtFreeMonths !== undefined
+                          ? formatYearsMonths(plan.debtFreeMonths)
+                          : "Not in projection"}
+                      </td>
+                      <td className="py-2 pr-4 text-slate-800">
+                        {formatCurrency(plan.netWorth)} (year {plan.netWorthYearIndex + 1})
+                      </td>
+                      <td className="py-2 pr-4 text-slate-800">
+                        {formatCurrency(plan.lowestSurplus)} spare (year{" "}
+                        {plan.lowestSurplusYearIndex + 1})
+                      </td>
+                      <td className="py-2 pr-4 text-slate-800">
+                        {formatCurrency(plan.interestPaid)}
+                      </td>
+                      <td className="py-2">
+                        {!isStale && (
+                          <button
+                            type="button"
+                            onClick={() => onApply(plan.tips)}
+                            className="px-3 py-1 text-xs rounded-full font-medium border border-slate-200 text-slate-700 hover:bg-slate-100 hover:text-slate-900"
+                          >
+                            Use
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-[11px] text-slate-500">
+            {result.simulations} plans tested; {result.rejected} dropped for a
+            year of negative surplus cashflow.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* Monte Carlo ("Range of outcomes") */
+function MonteCarloFanChart({ result }: { result: MonteCarloResult }) {
+  const labels = result.netWorth.map((_, i) => `Year ${i + 1}`);
+
+  const data = {
+    labels,
+    datasets: [
+      {
+        label: "Optimistic (P90)",
+        data: result.netWorth.map((p) => p.p90),
+        borderColor: "rgba(16, 185, 129, 0.6)",
+        backgroundColor: "rgba(16, 185, 129, 0.6)",
+        borderDash: [6, 4],
+        pointRadius: 0,
+        tension: 0.3,
+      },
+      {
+        label: "Median (P50)",
+        data: result.netWorth.map((p) => p.p50),
+        borderColor: "rgb(16, 185, 129)",
+        backgroundColor: "rgb(16, 185, 129)",
+        pointRadius: 0,
+        tension: 0.3,
+      },
+      {
+        label: "Pessimistic (P10)",
+        data: result.netWorth.map((p) => p.p10),
+        borderColor: "rgba(239, 68, 68, 0.6)",
+        backgroundColor: "rgba(239, 68, 68, 0.6)",
+        borderDash: [6, 4],
+        pointRadius: 0,
+        tension: 0.3,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false as const,
+    plugins: {
+      legend: {
+        position: "top" as const,
+        labels: { color: "rgb(71, 85, 105)" },
+      },
+      title: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"line">) =>
+            `${context.dataset.label}: ${formatCurrency(context.parsed.y ?? 0)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: { color: "rgb(71, 85, 105)" },
+        grid: { color: "rgb(226, 232, 240)" },
+      },
+      y: {
+        ticks: {
+          color: "rgb(71, 85, 105)",
+          callback: (value: string | number) => formatCurrency(Number(value)),
+        },
+        grid: { color: "rgb(226, 232, 240)" },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-slate-900">Net worth range</h4>
+      <div className="h-72 sm:h-80">
+        <Line options={options} data={data} />
+      </div>
+    </div>
+  );
+}
+
+function DebtFreeHistogram({ result }: { result: MonteCarloResult }) {
+  const data = {
+    labels: result.debtFreeHistogram.map((b) => `Year ${b.yearIndex + 1}`),
+    datasets: [
+      {
+        label: "Share of simulations",
+        data: result.debtFreeHistogram.map((b) => (b.runs / result.runs) * 100),
+        backgroundColor: "rgba(59, 130, 246, 0.7)",
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false as const,
+    plugins: {
+      legend: { display: false },
+      title: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<"bar">) =>
+            `${formatPercent(context.parsed.y ?? 0)} of simulations`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: { color: "rgb(71, 85, 105)" },
+        grid: { display: false },
+      },
+      y: {
+        ticks: {
+          color: "rgb(71, 85, 105)",
+          callback: (value: string | number) => formatPercent(Number(value)),
+        },
+        grid: { color: "rgb(226, 232, 240)" },
+      },
+    },
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-slate-900">
+        When the home loan could be cleared
+      </h4>
+      <div className="h-56 sm:h-64">
+        <Bar options={options} data={data} />
+      </div>
+    </div>
+  );
+}
+
+function MonteCarloPanel({
+  baseInputs,
+  tipInputs,
+  assumptionInputs,
+}: {
+  baseInputs: BaseInputs;
+  tipInputs: TipInputs;
+  assumptionInputs: Partial<Assumptions>;
+}) {
+  const [settings, setSettings] = useState<MonteCarloSettings>(() =>
+    defaultMonteCarloSettings(baseInputs, tipInputs, assumptionInputs)
+  );
+  const job = useWorkerJob<MonteCarloRequest, MonteCarloProgress, MonteCarloResult>({
+    createWorker: () =>
+      new Worker(new URL("../lib/monteCarlo.worker.ts", import.meta.url)),
+    runHere: (request) =>
+      runMonteCarlo(
+        request.base,
+        request.tips,
+        request.customAssumptions,
+        request.settings
+      ),
+    failureMessage: "The simulations couldn't finish with these inputs.",
+  });
+
+  // Remember which inputs the result was run with so we can flag it as stale
+  const [lastRun, setLastRun] = useState<{
+    result: MonteCarloResult;
+    baseInputs: BaseInputs;
+    tipInputs: TipInputs;
+    assumptionInputs: Partial<Assumptions>;
+  } | null>(null);
+
+  const isStale =
+    lastRun !== null &&
+    (lastRun.baseInputs !== baseInputs ||
+      lastRun.tipInputs !== tipInputs ||
+      lastRun.assumptionInputs !== assumptionInputs);
+
+  const handleRun = () => {
+    const request: MonteCarloRequest = {
+      base: baseInputs,
+      tips: tipInputs,
+      customAssumptions: assumptionInputs,
+      settings,
+    };
+    job.start(request, { runsDone: 0, runs: settings.runs }, (result) =>
+      setLastRun({ result, baseInputs, tipInputs, assumptionInputs })
+    );
+  };
+
+  const updateFactor = (
+    key: "homeGrowth" | "ipGrowth" | "investReturn" | "interestRate",
+    field: keyof StochasticFactor,
+    val: number
+  ) =>
+    setSettings((prev) => ({
+      ...prev,
+      [key]: { ...prev[key], [field]: (val || 0) / 100 },
+    }));
+
+  const factorRows: {
+    key: "homeGrowth" | "ipGrowth" | "investReturn" | "interestRate";
+    label: string;
+  }[] = [
+    { key: "homeGrowth", label: "Home growth" },
+    { key: "ipGrowth", label: "Investment property growth" },
+    { key: "investReturn", label: "Portfolio return" },
+    { key: "interestRate", label: "Home loan rate (long-run)" },
+  ];
+
+  const result = lastRun?.result;
+  const yearLabel = (yearIndex: number) =>
+    yearIndex >= (assumptionInputs.projectionYears ?? 30)
+      ? "Not within projection"
+      : `Year ${yearIndex + 1}`;
+
+  return (
+    <div className="space-y-5">
+      <div className="grid gap-3 md:grid-cols-2">
+        {factorRows.map((row) => (
+          <div key={row.key} className="grid grid-cols-2 gap-3">
+            <InputField
+              label={`${row.label} – mean`}
+              value={settings[row.key].mean * 100}
+              onChange={(val) => updateFactor(row.key, "mean", val)}
+              suffix="%"
+              decimals={2}
+            />
+            <InputField
+              label="Volatility (std dev)"
+              value={settings[row.key].volatility * 100}
+              onChange={(val) => updateFactor(row.key, "volatility", val)}
+              suffix="%"
+              decimals={2}
+            />
+          </div>
+        ))}
+        <InputField
+          label="Number of simulations"
+          value={settings.runs}
+          onChange={(val) =>
+            setSettings((prev) => ({
+              ...prev,
+              runs: Math.min(10_000, Math.max(1, Math.round(val || 1))),
+            }))
+          }
+          helper="Runs in the background – about 5 seconds per 1,000; up to 10,000"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={job.isRunning}
+          className="px-4 py-2 text-sm rounded-full font-medium bg-blue-500 text-white shadow-sm hover:bg-blue-600 disabled:opacity-60"
+        >
+          {job.progress
+            ? `Running… (${job.progress.runsDone.toLocaleString("en-AU")} of ${job.progress.runs.toLocaleString("en-AU")})`
+            : "Run simulations"}
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            setSettings(
+              defaultMonteCarloSettings(baseInputs, tipInputs, assumptionInputs)
+            )
+          }
+          className="px-3 py-2 text-xs sm:text-sm rounded-full font-medium text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+        >
+          Reset means to my inputs
+        </button>
+        {isStale && (
+          <span className="text-xs text-amber-700">
+            Inputs have changed since this run – run again to update.
+          </span>
+        )}
+        {job.error && <span className="text-xs text-red-600 font-medium">{job.error}</span>}
       </div>
+
+      {result ? (
+        <div className="space-y-5">
+          <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-2">
+            <ResultRow
+              label="Chance of being able to clear the home loan"
+              value={formatPercent(result.debtFreeProbability * 100)}
+              highlight
+            />
+            {result.debtFreeYear && (
+              <>
+                <ResultRow
+                  label="Debt-free – optimistic (P10)"
+                  value={yearLabel(result.debtFreeYear.p10)}
+                />
+                <ResultRow
+                  label="Debt-free – median (P50)"
+                  value={yearLabel(result.debtFreeYear.p50)}
+                />
+                <ResultRow
+                  label="Debt-free – pessimistic (P90)"
+                  value={yearLabel(result.debtFreeYear.p90)}
+                />
+              </>
+            )}
+          </div>
+          <DebtFreeHistogram result={result} />
+          <MonteCarloFanChart result={result} />
+        </div>
+      ) : (
+        <p className="text-xs text-slate-600">
+          Each simulation draws a random (but correlated) path for property
+          growth, portfolio returns and interest rates, then runs the full
+          projection. Run them to see the range of outcomes rather than a
+          single answer.
+        </p>
+      )}
     </div>
   );
 }
@@ -911,12 +3960,22 @@ function ResultsTabs({
 /* Chart tabs wrapper */
 function ChartTabs({
   years,
+  baselineYears,
   debtFreeLabel,
+  baseInputs,
+  tipInputs,
+  assumptionInputs,
 }: {
   years: YearState[];
+  baselineYears: YearState[];
   debtFreeLabel: string;
+  baseInputs: BaseInputs;
+  tipInputs: TipInputs;
+  assumptionInputs: Partial<Assumptions>;
 }) {
-  const [activeChart, setActiveChart] = useState<"debt" | "networth">("debt");
+  const [activeChart, setActiveChart] = useState<"debt" | "networth" | "range">(
+    "debt"
+  );
 
   return (
     <div className="rounded-2xl border border-slate-200 bg-white p-6 space-y-4 shadow-sm">
@@ -927,7 +3986,8 @@ function ChartTabs({
           </h3>
           <p className="text-xs text-slate-600 mt-1">
             Flip between debt reduction and overall wealth to see how the
-            strategy plays out over time.
+            strategy plays out over time, or see the range of outcomes when
+            markets don’t go to plan.
           </p>
         </div>
 
@@ -954,14 +4014,38 @@ function ChartTabs({
           >
             Net worth & assets
           </button>
+          <button
+            type="button"
+            onClick={() => setActiveChart("range")}
+            className={`ml-1 px-3 py-1.5 text-xs sm:text-sm rounded-full font-medium whitespace-nowrap transition-colors ${
+              activeChart === "range"
+                ? "bg-blue-500 text-white shadow-sm"
+                : "text-slate-700 hover:text-slate-900 hover:bg-slate-100"
+            }`}
+          >
+            Range of outcomes
+          </button>
         </div>
       </div>
 
       <div className="pt-1">
-        {activeChart === "debt" ? (
-          <DebtReductionChart years={years} debtFreeLabel={debtFreeLabel} />
-        ) : (
-          <NetWorthChart years={years} />
+        {activeChart === "debt" && (
+          <DebtReductionChart
+            years={years}
+            baselineYears={baselineYears}
+            debtFreeLabel={debtFreeLabel}
+            lifeEvents={baseInputs.lifeEvents}
+          />
+        )}
+        {activeChart === "networth" && (
+          <NetWorthChart years={years} lifeEvents={baseInputs.lifeEvents} />
+        )}
+        {activeChart === "range" && (
+          <MonteCarloPanel
+            baseInputs={baseInputs}
+            tipInputs={tipInputs}
+            assumptionInputs={assumptionInputs}
+          />
         )}
       </div>
     </div>
@@ -980,26 +4064,45 @@ export default function HomePage() {
     propertyValueHome: 900_000,
     homeLoanBalance: 600_000,
     homeLoanRate: 0.055, // 5.5% p.a.
+    loanTermYears: 30,
     minRepaymentMonthly: 3_500,
-    marginalTaxRate: 0.39, // 39% including Medicare
-    netIncomeAnnual: 120_000,
+    fixedRateSplits: [],
+    homeLoanType: "principalAndInterest",
+    homeLoanInterestOnlyYears: 0,
+    refinanceEvents: [],
+    lifeEvents: [],
+    earners: [{ label: "You", grossSalaryAnnual: 170_000, salaryGrowthRate: 0.03 }],
     livingExpensesAnnualExMortgage: 50_000,
     offsetBalance: 40_000,
     emergencyFundTarget: 20_000,
   });
 
   const [tipInputs, setTipInputs] = useState<TipInputs>({
+    tip1_enabled: true,
+    tip2_enabled: true,
+    tip3_enabled: true,
+    tip4_enabled: true,
+    tip5_enabled: true,
+    tip6_enabled: true,
     tip1_extraSavingsPerMonth: 300,
-    tip4_salaryGrowthRate: 0.03,
-    tip5_purchaseYear: 5, // still required by type
-    tip5_purchasePrice: 700_000,
-    tip5_purchaseCostsRate: 0.05,
-    tip5_rentAnnual: 35_000,
-    tip5_expensesAnnual: 10_000,
-    tip5_ipLoanRate: 0.06,
+    tip3_repaymentFrequency: "halfMonthlyFortnightly",
+    tip5_properties: [newInvestmentProperty(0)],
     tip6_recyclePerYear: 10_000,
+    tip6_loanRate: 0.062,
     tip6_investReturn: 0.07,
     tip6_dividendYield: 0.04,
+    tip6_frankingRate: 0.7,
+    tip6_companyTaxRate: 0.3,
+    tip6_ownershipShare: 1,
+  });
+
+  const [assumptionInputs, setAssumptionInputs] = useState<
+    Partial<Assumptions>
+  >({
+    startDate: "2026-07-01",
+    taxBracketIndexation: 0,
+    exitStrategy: "none",
+    exitYearIndex: 9,
   });
 
   const updateBase = (field: keyof BaseInputs) => (val: number) => {
@@ -1010,10 +4113,39 @@ export default function HomePage() {
     setTipInputs((prev) => ({ ...prev, [field]: Number(val) || 0 }));
   };
 
+  const lenderPolicy = assumptionInputs.lenderPolicy ?? DEFAULT_LENDER_POLICY;
+  const updatePolicy = (changes: Partial<LenderPolicy>) =>
+    setAssumptionInputs((prev) => ({
+      ...prev,
+      lenderPolicy: { ...(prev.lenderPolicy ?? DEFAULT_LENDER_POLICY), ...changes },
+    }));
+
+  const toggleStrategy = (id: StrategyId) => (checked: boolean) => {
+    setTipInputs((prev) => ({ ...prev, [`tip${id}_enabled`]: checked }));
+  };
+
   // 2. Run simulation
   const result = useMemo(
-    () => runDebtProSimulation(baseInputs, tipInputs),
-    [baseInputs, tipInputs]
+    () => runDebtProSimulation(baseInputs, tipInputs, assumptionInputs),
+    [baseInputs, tipInputs, assumptionInputs]
+  );
+
+  const baseline = useMemo(
+    () => runBaselineSimulation(baseInputs, tipInputs, assumptionInputs),
+    [baseInputs, tipInputs, assumptionInputs]
+  );
+  const comparison = useMemo(
+    () => compareWithBaseline(result, baseline),
+    [result, baseline]
+  );
+  const contributions = useMemo(
+    () => runStrategyWaterfall(baseInputs, tipInputs, assumptionInputs),
+    [baseInputs, tipInputs, assumptionInputs]
+  );
+
+  const refinanceAnalysis = useMemo(
+    () => runRefinanceAnalysis(baseInputs, tipInputs, assumptionInputs),
+    [baseInputs, tipInputs, assumptionInputs]
   );
 
   const years = result.years;
@@ -1196,28 +4328,55 @@ export default function HomePage() {
                       decimals={2}
                     />
                     <InputField
-                      label="Minimum repayment (per month)"
-                      value={baseInputs.minRepaymentMonthly}
-                      onChange={updateBase("minRepaymentMonthly")}
-                      prefix="$"
+                      label="Remaining loan term"
+                      value={baseInputs.loanTermYears}
+                      onChange={updateBase("loanTermYears")}
+                      suffix="years"
                     />
-                    <InputField
-                      label="Marginal tax rate incl. Medicare"
-                      value={baseInputs.marginalTaxRate * 100}
+                    <SelectField
+                      label="Home loan type"
+                      value={baseInputs.homeLoanType}
+                      options={LOAN_TYPE_OPTIONS}
                       onChange={(val) =>
-                        setBaseInputs((prev) => ({
-                          ...prev,
-                          marginalTaxRate: (val || 0) / 100,
-                        }))
+                        setBaseInputs((prev) => ({ ...prev, homeLoanType: val }))
                       }
-                      suffix="%"
-                      decimals={2}
                     />
+                    {baseInputs.homeLoanType === "interestOnly" && (
+                      <InputField
+                        label="Interest-only period remaining"
+                        value={baseInputs.homeLoanInterestOnlyYears}
+                        onChange={updateBase("homeLoanInterestOnlyYears")}
+                        suffix="years"
+                        helper="Then principal & interest for the rest of the term"
+                      />
+                    )}
                     <InputField
-                      label="Annual take home pay (after tax)"
-                      value={baseInputs.netIncomeAnnual}
-                      onChange={updateBase("netIncomeAnnual")}
+                      label="Minimum repayment (per month)"
+                      value={baseInputs.minRepaymentMonthly}
+                      onChange={updateBase("minRepaymentMonthly")}
                       prefix="$"
+                      helper={
+                        baseInputs.homeLoanType === "interestOnly" &&
+                        baseInputs.homeLoanInterestOnlyYears > 0
+                          ? `Interest-only minimum: ${formatCurrency(
+                              scheduledRepayment(
+                                baseInputs.homeLoanBalance,
+                                baseInputs.homeLoanRate,
+                                baseInputs.loanTermYears * 12,
+                                true
+                              )
+                            )}`
+                          : baseInputs.loanTermYears > 0
+                            ? `P&I minimum over the term: ${formatCurrency(
+                                scheduledRepayment(
+                                  baseInputs.homeLoanBalance,
+                                  baseInputs.homeLoanRate,
+                                  baseInputs.loanTermYears * 12,
+                                  false
+                                )
+                              )}`
+                            : undefined
+                      }
                     />
                     <InputField
                       label="Annual living expenses (excluding mortgage)"
@@ -1238,12 +4397,67 @@ export default function HomePage() {
                       prefix="$"
                     />
                   </div>
+
+                  <p className="text-xs font-semibold text-slate-600 mt-4 mb-2 uppercase tracking-wide">
+                    Household income
+                  </p>
+                  <EarnersEditor
+                    earners={baseInputs.earners}
+                    onChange={(earners) =>
+                      setBaseInputs((prev) => ({ ...prev, earners }))
+                    }
+                  />
+
+                  <p className="text-xs font-semibold text-slate-600 mt-4 mb-2 uppercase tracking-wide">
+                    Fixed rate splits
+                  </p>
+                  <FixedSplitsEditor
+                    splits={baseInputs.fixedRateSplits}
+                    homeLoanBalance={baseInputs.homeLoanBalance}
+                    variableRate={baseInputs.homeLoanRate}
+                    onChange={(fixedRateSplits) =>
+                      setBaseInputs((prev) => ({ ...prev, fixedRateSplits }))
+                    }
+                  />
+
+                  <p className="text-xs font-semibold text-slate-600 mt-4 mb-2 uppercase tracking-wide">
+                    Refinancing
+                  </p>
+                  <RefinanceEditor
+                    events={baseInputs.refinanceEvents}
+                    homeLoanRate={baseInputs.homeLoanRate}
+                    onChange={(refinanceEvents) =>
+                      setBaseInputs((prev) => ({ ...prev, refinanceEvents }))
+                    }
+                  />
+
+                  <p className="text-xs font-semibold text-slate-600 mt-4 mb-2 uppercase tracking-wide">
+                    Life events
+                  </p>
+                  <LifeEventsEditor
+                    events={baseInputs.lifeEvents}
+                    earners={baseInputs.earners}
+                    projectionYears={assumptionInputs.projectionYears ?? 30}
+                    onChange={(lifeEvents) =>
+                      setBaseInputs((prev) => ({ ...prev, lifeEvents }))
+                    }
+                  />
                 </div>
 
                 <div className="mt-4">
                   <p className="text-xs font-semibold text-slate-600 mb-2 uppercase tracking-wide">
                     Strategy Inputs
                   </p>
+                  <div className="mb-3 flex flex-wrap gap-2">
+                    {([1, 2, 3, 4, 5, 6] as StrategyId[]).map((id) => (
+                      <ToggleField
+                        key={id}
+                        label={`${id}. ${STRATEGY_SHORT_LABELS[id]}`}
+                        checked={tipInputs[`tip${id}_enabled`]}
+                        onChange={toggleStrategy(id)}
+                      />
+                    ))}
+                  </div>
                   <div className="grid gap-3 md:grid-cols-3">
                     <InputField
                       label="Extra savings (per month)"
@@ -1251,94 +4465,238 @@ export default function HomePage() {
                       onChange={updateTip("tip1_extraSavingsPerMonth")}
                       prefix="$"
                     />
-                    <InputField
-                      label="Annual salary increase (p.a.)"
-                      value={tipInputs.tip4_salaryGrowthRate * 100}
+                    <SelectField
+                      label="Repayment frequency"
+                      value={tipInputs.tip3_repaymentFrequency}
+                      options={REPAYMENT_FREQUENCY_OPTIONS}
                       onChange={(val) =>
                         setTipInputs((prev) => ({
                           ...prev,
-                          tip4_salaryGrowthRate: (val || 0) / 100,
+                          tip3_repaymentFrequency: val,
                         }))
                       }
-                      suffix="%"
-                      decimals={2}
-                      helper="Increases your mortgage payments by this amount each year"
+                      helper="Half the monthly amount every fortnight = 13 monthly repayments a year"
                     />
+                  </div>
+                  <p className="text-xs font-semibold text-slate-600 mt-4 mb-2 uppercase tracking-wide">
+                    Investment properties (Strategy 5)
+                  </p>
+                  <InvestmentPropertiesEditor
+                    properties={tipInputs.tip5_properties}
+                    earners={baseInputs.earners}
+                    onChange={(properties) =>
+                      setTipInputs((prev) => ({ ...prev, tip5_properties: properties }))
+                    }
+                  />
+                  <p className="text-xs font-semibold text-slate-600 mt-4 mb-2 uppercase tracking-wide">
+                    Debt recycling (Strategy 6)
+                  </p>
+                  <div className="grid gap-3 md:grid-cols-3">
                     <InputField
-                      label="Investment property purchase price"
-                      value={tipInputs.tip5_purchasePrice}
-                      onChange={updateTip("tip5_purchasePrice")}
+                      label="Starting debt recycling amount (after the first IP purchase)"
+                      value={tipInputs.tip6_recyclePerYear}
+                      onChange={updateTip("tip6_recyclePerYear")}
                       prefix="$"
-                      helper="Purchase price should be 20% higher than your current home loan"
+                      helper="One-time kick-off paid from offset cash above your emergency fund; future years recycle your repayments above the minimum, dividends and tax refunds."
                     />
                     <InputField
-                      label="Purchase costs (as % of price)"
-                      value={tipInputs.tip5_purchaseCostsRate * 100}
+                      label="Recycled split rate (p.a.)"
+                      value={tipInputs.tip6_loanRate * 100}
                       onChange={(val) =>
                         setTipInputs((prev) => ({
                           ...prev,
-                          tip5_purchaseCostsRate: (val || 0) / 100,
+                          tip6_loanRate: (val || 0) / 100,
                         }))
                       }
                       suffix="%"
                       decimals={2}
-                      helper="Stamp duty, legal fees, etc."
-                    />
-                    <InputField
-                      label="Investment property gross annual rent"
-                      value={tipInputs.tip5_rentAnnual}
-                      onChange={updateTip("tip5_rentAnnual")}
-                      prefix="$"
+                      helper="The deductible split’s own rate; it moves with any rate changes."
                     />
                     <InputField
-                      label="Investment property annual expenses"
-                      value={tipInputs.tip5_expensesAnnual}
-                      onChange={updateTip("tip5_expensesAnnual")}
-                      prefix="$"
+                      label="Portfolio total return (p.a.)"
+                      value={tipInputs.tip6_investReturn * 100}
+                      onChange={(val) =>
+                        setTipInputs((prev) => ({
+                          ...prev,
+                          tip6_investReturn: (val || 0) / 100,
+                        }))
+                      }
+                      suffix="%"
+                      decimals={2}
                     />
                     <InputField
-                      label="IP loan rate (p.a.)"
-                      value={tipInputs.tip5_ipLoanRate * 100}
+                      label="Portfolio yield (p.a.)"
+                      value={tipInputs.tip6_dividendYield * 100}
                       onChange={(val) =>
                         setTipInputs((prev) => ({
                           ...prev,
-                          tip5_ipLoanRate: (val || 0) / 100,
+                          tip6_dividendYield: (val || 0) / 100,
                         }))
                       }
                       suffix="%"
                       decimals={2}
+                      helper="The yield component of the total return, with the remainder being portfolio growth."
                     />
                     <InputField
-                      label="Starting debt recycling amount (after IP purchase)"
-                      value={tipInputs.tip6_recyclePerYear}
-                      onChange={updateTip("tip6_recyclePerYear")}
-                      prefix="$"
-                      helper="One-time kick-off; future years recycle your repayments above the minimum."
+                      label="Dividends franked"
+                      value={tipInputs.tip6_frankingRate * 100}
+                      onChange={(val) =>
+                        setTipInputs((prev) => ({
+                          ...prev,
+                          tip6_frankingRate: Math.min(100, val || 0) / 100,
+                        }))
+                      }
+                      suffix="%"
+                      decimals={2}
+                      helper="Around 70–80% for an Australian shares ETF; 0% for international shares."
                     />
                     <InputField
-                      label="Portfolio total return (p.a.)"
-                      value={tipInputs.tip6_investReturn * 100}
+                      label="Company tax rate (franking)"
+                      value={tipInputs.tip6_companyTaxRate * 100}
                       onChange={(val) =>
                         setTipInputs((prev) => ({
                           ...prev,
-                          tip6_investReturn: (val || 0) / 100,
+                          tip6_companyTaxRate: Math.min(99, val || 0) / 100,
                         }))
                       }
                       suffix="%"
                       decimals={2}
+                      helper="30% for large companies; 25% for base rate entities."
+                    />
+                    {baseInputs.earners.length > 1 && (
+                      <InputField
+                        label={`Portfolio share in ${baseInputs.earners[0].label || "Earner 1"}'s name`}
+                        value={tipInputs.tip6_ownershipShare * 100}
+                        onChange={(val) =>
+                          setTipInputs((prev) => ({
+                            ...prev,
+                            tip6_ownershipShare: Math.min(100, val || 0) / 100,
+                          }))
+                        }
+                        suffix="%"
+                        helper="Dividends, loan interest and CGT are split in this ratio"
+                      />
+                    )}
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <p className="text-xs font-semibold text-slate-600 mb-2 uppercase tracking-wide">
+                    Projection assumptions
+                  </p>
+                  <div className="grid gap-3 md:grid-cols-3">
+                    <SelectField
+                      label="Projection starts in financial year"
+                      value={assumptionInputs.startDate ?? "2026-07-01"}
+                      options={START_FINANCIAL_YEAR_OPTIONS}
+                      onChange={(val) =>
+                        setAssumptionInputs((prev) => ({
+                          ...prev,
+                          startDate: val,
+                        }))
+                      }
+                      helper="Picks up legislated tax bracket changes from this year on"
                     />
                     <InputField
-                      label="Portfolio yield (p.a.)"
-                      value={tipInputs.tip6_dividendYield * 100}
+                      label="Tax bracket indexation (p.a.)"
+                      value={(assumptionInputs.taxBracketIndexation ?? 0) * 100}
                       onChange={(val) =>
-                        setTipInputs((prev) => ({
+                        setAssumptionInputs((prev) => ({
                           ...prev,
-                          tip6_dividendYield: (val || 0) / 100,
+                          taxBracketIndexation: (val || 0) / 100,
                         }))
                       }
                       suffix="%"
                       decimals={2}
-                      helper="The yield component of the total return, with the remainder being portfolio growth."
+                      helper="Applied to thresholds after the last known tax table. 0% = bracket creep."
+                    />
+                    <SelectField
+                      label="When the plan completes"
+                      value={assumptionInputs.exitStrategy ?? "none"}
+                      options={EXIT_STRATEGY_OPTIONS}
+                      onChange={(val) =>
+                        setAssumptionInputs((prev) => ({
+                          ...prev,
+                          exitStrategy: val,
+                        }))
+                      }
+                      helper="Selling pays CGT and selling costs, clears the loans and keeps projecting"
+                    />
+                    {assumptionInputs.exitStrategy === "atYear" && (
+                      <InputField
+                        label="Sell in year"
+                        value={(assumptionInputs.exitYearIndex ?? 0) + 1}
+                        onChange={(val) =>
+                          setAssumptionInputs((prev) => ({
+                            ...prev,
+                            exitYearIndex: Math.max(1, Math.round(val || 1)) - 1,
+                          }))
+                        }
+                        helper="Nothing is bought or recycled from this year on"
+                      />
+                    )}
+                  </div>
+
+                  <p className="text-xs font-semibold text-slate-600 mt-4 mb-2 uppercase tracking-wide">
+                    Interest rate changes
+                  </p>
+                  <RateScheduleEditor
+                    schedule={assumptionInputs.rateSchedule ?? EMPTY_RATE_SCHEDULE}
+                    baseRate={baseInputs.homeLoanRate}
+                    onChange={(rateSchedule) =>
+                      setAssumptionInputs((prev) => ({ ...prev, rateSchedule }))
+                    }
+                  />
+
+                  <p className="text-xs font-semibold text-slate-600 mt-4 mb-2 uppercase tracking-wide">
+                    Lender policy (investment loan)
+                  </p>
+                  <div className="grid gap-3 md:grid-cols-3">
+                    <InputField
+                      label="Maximum LVR against your home"
+                      value={lenderPolicy.maxLvr * 100}
+                      onChange={(val) => updatePolicy({ maxLvr: (val || 0) / 100 })}
+                      suffix="%"
+                      decimals={2}
+                      helper="Above 80% combined LVR, LMI is charged"
+                    />
+                    <InputField
+                      label="Deposit (% of price)"
+                      value={lenderPolicy.depositRate * 100}
+                      onChange={(val) => updatePolicy({ depositRate: (val || 0) / 100 })}
+                      suffix="%"
+                      decimals={2}
+                      helper="Funded from home equity, with purchase costs on top"
+                    />
+                    <InputField
+                      label="Assessment rate buffer"
+                      value={lenderPolicy.assessmentBuffer * 100}
+                      onChange={(val) =>
+                        updatePolicy({ assessmentBuffer: (val || 0) / 100 })
+                      }
+                      suffix="%"
+                      decimals={2}
+                      helper="Added to every loan rate when testing repayments"
+                    />
+                    <InputField
+                      label="Rent counted as income"
+                      value={lenderPolicy.rentalShading * 100}
+                      onChange={(val) => updatePolicy({ rentalShading: (val || 0) / 100 })}
+                      suffix="%"
+                      decimals={2}
+                    />
+                    <InputField
+                      label="Minimum living expenses (single)"
+                      value={lenderPolicy.hemSingleAnnual}
+                      onChange={(val) => updatePolicy({ hemSingleAnnual: val || 0 })}
+                      prefix="$"
+                      helper="HEM-style floor used if your expenses are lower"
+                    />
+                    <InputField
+                      label="Minimum living expenses (couple)"
+                      value={lenderPolicy.hemCoupleAnnual}
+                      onChange={(val) => updatePolicy({ hemCoupleAnnual: val || 0 })}
+                      prefix="$"
                     />
                   </div>
                 </div>
@@ -1356,12 +4714,146 @@ export default function HomePage() {
                     <h3 className="text-base font-semibold text-slate-900 mb-1">
                       When could you clear your home loan?
                     </h3>
+                    {result.warnings.map((warning) => (
+                      <p
+                        key={warning.kind}
+                        className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800"
+                      >
+                        Your repayment of {formatCurrency(warning.enteredMonthly)}
+                        /month is less than the lender&apos;s minimum of{" "}
+                        {formatCurrency(warning.requiredMonthly)}/month, so the
+                        projection uses the lender&apos;s minimum instead.
+                      </p>
+                    ))}
                     <ResultRow
                       label="Home loan debt-free year"
                       value={debtFreeLabel}
                       highlight={debtFreeYearIndex !== undefined}
                     />
-                                       
+                    <ResultRow
+                      label="Debt-free with minimum repayments only"
+                      value={
+                        comparison.baselineDebtFreeMonths !== undefined
+                          ? formatYearsMonths(comparison.baselineDebtFreeMonths)
+                          : "Not within projection period"
+                      }
+                    />
+                    <ResultRow
+                      label="Interest saved vs minimum repayments"
+                      value={formatCurrency(comparison.interestSaved)}
+                      highlight={comparison.interestSaved > 0}
+                    />
+                    <ResultRow
+                      label="Time saved"
+                      value={
+                        comparison.monthsSaved !== undefined
+                          ? `${comparison.baselineClearsInProjection ? "" : "At least "}${formatYearsMonths(comparison.monthsSaved)}`
+                          : "-"
+                      }
+                      highlight={(comparison.monthsSaved ?? 0) > 0}
+                    />
+                    <ResultRow
+                      label={`Net worth difference (Year ${comparison.netWorthYearIndex + 1})`}
+                      value={formatCurrency(comparison.netWorthDifference)}
+                      highlight={comparison.netWorthDifference > 0}
+                    />
+                    {result.ipPurchases.map((outcome, index) => (
+                      <Fragment key={`ipPurchase-${index}`}>
+                        {outcome.check && (
+                          <>
+                            <ResultRow
+                              label={
+                                outcome.check.purchased
+                                  ? `${outcome.label}: purchase held back by`
+                                  : `${outcome.label}: not bought – blocked by`
+                              }
+                              value={BINDING_CONSTRAINT_LABELS[outcome.check.heldBackBy]}
+                            />
+                            {!outcome.check.assessment.equity.passes && (
+                              <ResultRow
+                                label="Equity shortfall (deposit + costs)"
+                                value={formatCurrency(
+                                  outcome.check.assessment.equity.requiredEquity -
+                                    outcome.check.assessment.equity.usableEquity
+                                )}
+                              />
+                            )}
+                            {!outcome.check.assessment.serviceability.passes && (
+                              <ResultRow
+                                label="Serviceability shortfall (per year)"
+                                value={formatCurrency(
+                                  -outcome.check.assessment.serviceability.surplus
+                                )}
+                              />
+                            )}
+                            <ResultRow
+                              label={`Borrowing capacity (Year ${outcome.check.yearIndex + 1})`}
+                              value={formatCurrency(
+                                outcome.check.assessment.serviceability.borrowingCapacity
+                              )}
+                            />
+                          </>
+                        )}
+                        {!outcome.check && (
+                          <ResultRow
+                            label={`${outcome.label}: not bought`}
+                            value="Trigger not reached"
+                          />
+                        )}
+                        {outcome.purchase && (
+                          <>
+                            <ResultRow
+                              label={`${outcome.label} bought (Year ${outcome.purchase.yearIndex + 1})`}
+                              value={`${formatCurrency(outcome.purchase.costs.total)} in purchase costs`}
+                            />
+                            <ResultRow
+                              label={`Stamp duty (${tipInputs.tip5_properties[index]?.state ?? ""})`}
+                              value={formatCurrency(outcome.purchase.costs.stampDuty)}
+                            />
+                            {outcome.purchase.costs.lmi > 0 && (
+                              <ResultRow
+                                label={`LMI (combined LVR ${formatPercent(
+                                  outcome.purchase.costs.combinedLvr * 100
+                                )})`}
+                                value={formatCurrency(outcome.purchase.costs.lmi)}
+                              />
+                            )}
+                          </>
+                        )}
+                      </Fragment>
+                    ))}
+                    {result.exit && (
+                      <>
+                        <ResultRow
+                          label={`IP + portfolio sold (Year ${result.exit.yearIndex + 1})`}
+                          value={`${formatCurrency(result.exit.homeLoanRepaid)} onto the home loan`}
+                          highlight={result.exit.clearedHomeLoan}
+                        />
+                        <ResultRow
+                          label="CGT and selling costs paid"
+                          value={formatCurrency(
+                            result.exit.sale.cgtPayable +
+                              result.exit.sale.ipSellingCosts
+                          )}
+                        />
+                        {result.exit.breakCostsPaid > 0 && (
+                          <ResultRow
+                            label="Fixed rate break costs paid"
+                            value={formatCurrency(result.exit.breakCostsPaid)}
+                          />
+                        )}
+                        <ResultRow
+                          label={`Net worth at end of projection (Year ${lastYear.yearIndex + 1})`}
+                          value={formatCurrency(lastYear.netWorth)}
+                        />
+                        <ResultRow
+                          label="Freed-up cashflow the year after"
+                          value={formatCurrency(
+                            years[result.exit.yearIndex + 1]?.surplusCashflow ?? 0
+                          )}
+                        />
+                      </>
+                    )}
                   </>
                 )}
               </div>
@@ -1369,9 +4861,74 @@ export default function HomePage() {
               {/* Charts + Tables (only when we have data) */}
               {years.length > 0 && (
                 <div className="space-y-8">
+                  <section id="goal-seek">
+                    <GoalSeekPanel
+                      baseInputs={baseInputs}
+                      tipInputs={tipInputs}
+                      assumptionInputs={assumptionInputs}
+                      onApply={setTipInputs}
+                    />
+                  </section>
+
+                  <section id="optimiser">
+                    <OptimiserPanel
+                      baseInputs={baseInputs}
+                      tipInputs={tipInputs}
+                      assumptionInputs={assumptionInputs}
+                      onApply={setTipInputs}
+                    />
+                  </section>
+
                   {/* Charts in tabs */}
                   <section id="charts">
-                    <ChartTabs years={years} debtFreeLabel={debtFreeLabel} />
+                    <ChartTabs
+                      years={years}
+                      baselineYears={baseline.years}
+                      debtFreeLabel={debtFreeLabel}
+                      baseInputs={baseInputs}
+                      tipInputs={tipInputs}
+                      assumptionInputs={assumptionInputs}
+                    />
+                  </section>
+
+                  <section id="contributions">
+                    <StrategyContributionChart contributions={contributions} />
+                  </section>
+
+                  {baseInputs.refinanceEvents.length > 0 && (
+                    <section id="refinance">
+                      <RefinanceAnalysisPanel
+                        analysis={refinanceAnalysis}
+                        events={baseInputs.refinanceEvents}
+                      />
+                    </section>
+                  )}
+
+                  {baseInputs.earners.length > 1 && (
+                    <section id="ownership">
+                      <OwnershipComparisonPanel
+                        baseInputs={baseInputs}
+                        tipInputs={tipInputs}
+                        assumptionInputs={assumptionInputs}
+                        currentIpShare={
+                          tipInputs.tip5_properties.every(
+                            (p) => p.ownershipShare === tipInputs.tip5_properties[0]?.ownershipShare
+                          )
+                            ? tipInputs.tip5_properties[0]?.ownershipShare
+                            : undefined
+                        }
+                        currentPortfolioShare={tipInputs.tip6_ownershipShare}
+                      />
+                    </section>
+                  )}
+
+                  <section id="stress-test">
+                    <RateStressTestPanel
+                      baseInputs={baseInputs}
+                      tipInputs={tipInputs}
+                      assumptionInputs={assumptionInputs}
+                      debtFreeMonths={result.debtFreeMonths}
+                    />
                   </section>
 
                   {/* Tables in tabs */}
@@ -1384,7 +4941,11 @@ export default function HomePage() {
                         Switch between cashflow, loan details and your overall
                         balance sheet to see how each year stacks up.
                       </p>
-                      <ResultsTabs years={years} baseInputs={baseInputs} />
+                      <ResultsTabs
+                        years={years}
+                        periods={result.periods}
+                        baseInputs={baseInputs}
+                      />
                     </div>
                   </section>
 
@@ -1394,27 +4955,91 @@ export default function HomePage() {
                     <div className="space-y-3 text-sm text-slate-700">
                       <div>
                         <p className="font-semibold text-slate-900">Home loan repayments & interest</p>
-                        <p>Monthly minimum + extra savings + fortnightly payments (Strategy 1 + 2) are paid as 13 “months” per year.</p>
+                        <p>Monthly minimum + extra savings (Strategy 1) are paid at your chosen frequency (Strategy 3). Paying half the monthly amount every fortnight makes 13 “months” of repayments per year; plain fortnightly and weekly repayments are the monthly amount × 12 spread over 26 or 52 payments. Interest is charged daily on the balance and repayments are applied as they are made.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Offset account (Strategy 2)</p>
+                        <p>Any surplus cashflow is swept into your offset at the end of each year, and a shortfall draws it down (but never below your emergency fund). Offset cash above the emergency fund reduces the balance interest is charged on.</p>
                       </div>
                       <div>
                         <p className="font-semibold text-slate-900">Salary growth (Strategy 4)</p>
-                        <p>Each year, net income grows by your Strategy 4 rate. The minimum stays fixed, but an extra repayment is added equal to the compounded growth on that minimum (e.g., 5% of the minimum after 1 year, compounding thereafter).</p>
+                        <p>Each year, each earner’s salary grows by their own salary increase. With Strategy 4 on, the minimum stays fixed but an extra repayment is added equal to the household’s compounded salary growth on that minimum (e.g., 5% of the minimum after 1 year, compounding thereafter).</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Investment properties (Strategy 5)</p>
+                        <p>Add one or more properties, each with its own price, rent, costs, growth rate and loan. Each has a trigger – from a set year, once usable equity reaches an amount, or a number of years after the previous property was bought – and is then purchased in the first year a lender would approve it. Properties are considered in list order. The equity test needs usable equity (the value of your home and any properties already held × the maximum LVR, less the loans against them) to cover the deposit plus purchase costs, so growth in earlier purchases can fund later ones. The serviceability test takes each earner’s after-tax salary plus their share of the rent from the new and existing properties (shaded to the % counted), less the higher of your living expenses and the minimum-expense floor, and checks it covers every loan repaid as P&I at its rate plus the assessment buffer. The results show which test held each purchase back. Each loan funds price + costs. Rent, council & strata, insurance and maintenance grow with CPI (3% p.a.); management fees are a share of the rent collected after vacancy. Each IP loan can be interest-only for a set number of years (then principal & interest over the rest of its term) or principal & interest from day one; principal repaid is a cash cost but isn’t tax deductible. The home loan can be interest-only for a period in the same way.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Stamp duty, LMI & purchase costs</p>
+                        <p>Stamp duty is worked out from the chosen state’s general (investor) transfer duty schedule, then legal and inspection costs are added; together with the price these form the IP’s CGT cost base. If the home loan, the loans on any properties already held and the new IP loan are more than 80% of the combined value of the home and every property, lender’s mortgage insurance is charged on the new loan and added to it. LMI is a borrowing cost: it isn’t part of the cost base but is deducted evenly over 5 years. First home buyer concessions and foreign buyer surcharges aren’t included.</p>
                       </div>
                       <div>
-                        <p className="font-semibold text-slate-900">Investment property (Strategy 5)</p>
-                        <p>IP is purchased when usable equity ≥ 30% of purchase price. Loan funds price + costs. Rent and expenses grow with CPI (3% p.a.) and loan is interest-only.</p>
+                        <p className="font-semibold text-slate-900">Holding costs, land tax & depreciation</p>
+                        <p>Each year the IP loses rent for the vacancy weeks and pays property management fees, council rates and strata, insurance, maintenance and land tax. Land tax uses each state’s general rates on the land value, which grows with the property. It is assessed per owner on all the land they hold in that state, so two properties in the same state can pay more together than apart, and each owner’s tax is shared across their properties by land value. The ACT instead charges each rented property once on its whole land value, however it is owned. Your home is exempt, and tax-free thresholds mean many single investment properties pay none. Depreciation from a quantity surveyor’s schedule is deducted for tax but costs no cash: capital works (Div 43) are 2.5% of the construction cost a year until the building turns 40, and plant & equipment (Div 40) is written off on the diminishing value method (200% ÷ effective life). Capital works claimed reduce the IP’s cost base, so they add to the capital gain when it’s sold.</p>
                       </div>
                       <div>
                         <p className="font-semibold text-slate-900">Debt recycling (Strategy 6)</p>
-                        <p>Starts after IP purchase. Year 1 draws your “Starting debt recycling amount”; later years recycle the repayments above the minimum. Recycled amounts are invested; portfolio earns yield + growth; recycled loan accrues interest at your home loan rate.</p>
+                        <p>Starts after IP purchase. The home loan is split in two: the original non-deductible loan and a deductible split used only to invest. In the first year your “Starting debt recycling amount” is paid onto the home loan from offset cash above your emergency fund and immediately redrawn on the deductible split. Each year after that, repayments above the minimum are redrawn the same way, and dividends and tax refunds are paid onto the home loan at year end and redrawn too. Everything redrawn is invested, so total debt stays the same while the deductible share grows. The recycled split has its own rate; its interest is paid from your cashflow and is tax deductible. Recycling stops once the home loan is repaid. The Debt recycling tab shows the ledger year by year.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Franking credits</p>
+                        <p>Australian companies pay tax before paying dividends, and pass that tax on as franking credits. The franked share of each dividend is grossed up by the credit (at 30% company tax, $70 of franked dividend carries a $30 credit), the grossed-up amount is added to taxable income, and the credit then comes off your tax as an offset. The offset is refundable: if it’s more than the tax you owe, the excess is paid back to you. Franking refunds are part of the tax benefit, so with debt recycling on they’re paid onto the home loan and recycled like other tax refunds.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Income tax</p>
+                        <p>Tax is calculated each year from your gross salary using the ATO resident brackets for that financial year (including legislated changes such as the stage 3 cuts), the Medicare levy and the low income tax offset. After the last known tax table, thresholds are indexed by your chosen rate. Investment property and portfolio income (or losses) are added to taxable income, so negative gearing is taxed at whichever brackets it actually falls into. Take-home pay is salary less tax on salary alone; the difference is shown as the tax benefit or extra tax.</p>
                       </div>
                       <div>
                         <p className="font-semibold text-slate-900">CPI / growth</p>
                         <p>Living expenses, IP rent, and IP expenses inflate at 3% p.a. Home and IP values grow at their specified rates.</p>
                       </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Selling at the end of the plan</p>
+                        <p>By default the calculator only shows when selling could clear your home loan. Choose an exit option to actually sell the IP and portfolio: selling costs and CGT are paid, the IP and recycled loans are repaid, the proceeds (plus spare offset cash) go onto the home loan and anything left stays in your offset. The projection then carries on so you can see your cashflow and net worth after the plan completes.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Minimum repayments</p>
+                        <p>The lender’s minimum is the principal & interest repayment that clears your balance over the remaining loan term. If you enter less than that, the projection uses the lender’s minimum and tells you; if you enter more, your higher repayment is used. The minimum is recalculated over the remaining term whenever the rate changes.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Fixed and variable splits</p>
+                        <p>Add fixed splits to carve part of the home loan out at a fixed rate; the rest is variable. Each split has its own minimum repayment. Extra repayments go to the variable split first and only spill onto a fixed split up to its yearly allowance. When the fixed period ends the split reverts to its revert rate (moved by any rate changes). Repaying a fixed split early – for example when selling to clear the loan – incurs an estimated break cost: how far the fixed rate is above today’s comparable rate (its revert rate, moved by any rate changes) × the balance × the years left on the fixed period.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Refinancing</p>
+                        <p>A refinance moves the home loan, the IP loan or both to a new lender from the start of the chosen year, at the new rate and over the new term (any interest-only period ends). Your repayments stay at least as high as before. Discharge and application fees (plus break costs on any fixed splits) are paid that year and a cashback is received. The new rate then moves with any rate changes you’ve entered. Break-even is the first year the interest saved versus staying put covers the switching costs.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Couples & ownership</p>
+                        <p>Add a second earner to model a couple. Each person has their own salary and pay rises and is taxed separately; Strategy 4 lifts repayments in line with the household’s combined pay rises. Set how much of the investment property and the portfolio is in the first person’s name – rent, expenses, interest, dividends and capital gains are split in that ratio, so negative gearing is claimed (and gains are taxed) at each owner’s own marginal rate. The ownership comparison re-runs the plan with each asset in one name, the other or 50/50, and shows the tax paid, CGT on a sale and net worth up to your debt-free year.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Life events</p>
+                        <p>Add the things you know are coming – a bonus or inheritance, a car or renovation, parental leave, school fees – on the timeline. One-off amounts land in the cashflow in their year. An income change scales your salary for the years chosen (tax is worked out on the reduced salary) while the underlying salary keeps growing. An expense change permanently raises or lowers living costs from that year and then grows with inflation. Events are marked with triangles on the projection charts.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Interest rate changes & stress test</p>
+                        <p>Rates stay at today’s levels unless you add rate changes (the home loan rate from a given year on) or a rate shock. The IP and recycled loans move by the same amount. Whenever the rate changes, the minimum repayment is recalculated the way lenders do: the current balance re-amortised over the remaining loan term. The stress test re-runs your plan with every rate 1%, 2% and 3% higher and shows the largest one-year cashflow shortfall and how far the debt-free date moves.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Range of outcomes</p>
+                        <p>The main projection assumes growth, returns and interest rates are the same every year. The “Range of outcomes” chart instead runs the plan many times, each with a random path for home and IP growth, portfolio returns and the home loan rate (which drifts back towards its long-run mean). The paths are correlated – the two properties tend to move together and higher rates tend to come with weaker returns. P10 / P50 / P90 show the optimistic, middle and pessimistic results across all runs.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Solve for…</p>
+                        <p>Pick a debt-free target and one input – extra monthly repayments, an investment property’s price or the debt recycling kick-off – and the calculator re-runs your plan across the range you set to find the smallest amount that clears the home loan in time (rounded up to the nearest $10 a month or $1,000). Everything else in your plan stays as entered. A bigger or smaller property keeps the same rental yield, land share and depreciation per dollar; its fixed running costs don’t change. Amounts that leave a year with a shortfall your offset can’t cover don’t count. The whole range is checked first, because a bigger amount isn’t always better – stamp duty, LMI and land tax step up in brackets and the lender may stop approving the purchase – and you’re told if some larger amounts miss the target again. If nothing in the range works, the target is shown as out of reach.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Strategy optimiser</p>
+                        <p>The optimiser searches the inputs you switch on – extra repayments, a property’s price and the recycling kick-off – within the ranges you set. It first tries a grid of combinations, then fine-tunes around the best one. Every plan is projected over the full horizon, and any plan with negative surplus cashflow in any year – even after the home loan is cleared – is dropped. The best few distinct plans are listed with their debt-free date, net worth, tightest year and total interest, so you can trade a little speed for more breathing room. The search runs in the background so the page stays responsive.</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-900">Comparison with minimum repayments</p>
+                        <p>The same inputs are also run with every strategy switched off: minimum monthly repayments only, no offset sweep, investment property or debt recycling. Interest saved counts home loan interest up to each scenario’s debt-free point. The contribution chart adds your chosen strategies one at a time (1 → 6) and credits each step’s saving to the strategy just added.</p>
+                      </div>
                       <div>
                         <p className="font-semibold text-slate-900">Debt-free check</p>
-                        <p>“Can clear” badge appears when selling IP + portfolio (after simple CGT) could pay off the home loan. Net worth = total assets minus all loans.</p>
+                        <p>“Can clear” badge appears when selling IP + portfolio, plus offset cash above your emergency fund, could pay off the home loan. CGT is worked out on each asset’s gain over its cost base (purchase price plus costs for the IP, each recycled amount for the portfolio), with the 50% discount for assets held 12 months or more, and taxed at your marginal rates in the year of sale. Net worth = total assets minus all loans.</p>
                       </div>
                     </div>
                   </section>
@@ -1625,3 +5250,71 @@ function InputField({
     </label>
   );
 }
+
+/* Reusable on/off toggle */
+function ToggleField({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label
+      className={`inline-flex cursor-pointer items-center gap-2 rounded-full border px-3 py-1.5 text-xs font-medium transition-colors ${
+        checked
+          ? "border-blue-200 bg-blue-50 text-sky-800"
+          : "border-slate-200 bg-white text-slate-500"
+      }`}
+    >
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="h-3.5 w-3.5 accent-blue-500"
+      />
+      {label}
+    </label>
+  );
+}
+
+/* Reusable select field */
+function SelectField<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  helper,
+}: {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (val: T) => void;
+  helper?: string;
+}) {
+  return (
+    <label className="block text-xs">
+      <span className="mb-1.5 block text-[11px] font-medium text-slate-600">
+        {label}
+      </span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as T)}
+        className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-sky-500 focus:ring-2 focus:ring-sky-500"
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {helper && (
+        <p className="mt-1 text-[11px] text-slate-500">
+          {helper}
+        </p>
+      )}
+    </label>
+  );
+}
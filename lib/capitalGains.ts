@@ -0,0 +1,87 @@
+// lib/capitalGains.ts
+
+import { calculateIncomeTax, type IncomeTaxTable } from "./incomeTax";
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// A CGT asset (or parcel of one) as it stands at a hypothetical sale
+export type CgtParcel = {
+  costBase: number;          // price + incidental costs of acquiring it
+  proceeds: number;          // sale price less selling costs
+  acquiredYearIndex: number;
+};
+
+export type CapitalGainsAssessment = {
+  grossGains: number;       // sum of parcels sold at a gain
+  capitalLosses: number;    // sum of parcels sold at a loss (positive number)
+  discountApplied: number;  // 50% discount on gains held 12 months+
+  netCapitalGain: number;   // amount added to taxable income
+};
+
+// ─────────────────────────────────────────────
+// 2. Constants
+// ─────────────────────────────────────────────
+
+// Individuals get a 50% discount on assets held for at least 12 months
+export const CGT_DISCOUNT_RATE = 0.5;
+
+// ─────────────────────────────────────────────
+// 3. Calculation
+// ─────────────────────────────────────────────
+
+// Sales are assumed to happen at the end of `saleYearIndex`, so anything
+// bought in an earlier projection year has been held for 12 months+.
+export function assessCapitalGains(
+  parcels: CgtParcel[],
+  saleYearIndex: number
+): CapitalGainsAssessment {
+  let discountableGains = 0;
+  let otherGains = 0;
+  let capitalLosses = 0;
+
+  for (const parcel of parcels) {
+    const gain = parcel.proceeds - parcel.costBase;
+    if (gain < 0) {
+      capitalLosses += -gain;
+    } else if (saleYearIndex > parcel.acquiredYearIndex) {
+      discountableGains += gain;
+    } else {
+      otherGains += gain;
+    }
+  }
+
+  // ATO order: losses come off non-discountable gains first,
+  // then the discount applies to what's left of the discountable gains.
+  const lossesAgainstOther = Math.min(capitalLosses, otherGains);
+  const lossesAgainstDiscountable = Math.min(
+    capitalLosses - lossesAgainstOther,
+    discountableGains
+  );
+  const remainingDiscountable = discountableGains - lossesAgainstDiscountable;
+  const discountApplied = remainingDiscountable * CGT_DISCOUNT_RATE;
+
+  return {
+    grossGains: discountableGains + otherGains,
+    capitalLosses,
+    discountApplied,
+    netCapitalGain:
+      otherGains - lossesAgainstOther + remainingDiscountable - discountApplied,
+  };
+}
+
+// Extra tax from adding a net capital gain on top of the year's other
+// taxable income, i.e. the gain is taxed at the household's marginal rates.
+export function capitalGainsTax(
+  netCapitalGain: number,
+  otherTaxableIncome: number,
+  table: IncomeTaxTable
+): number {
+  if (netCapitalGain <= 0) return 0;
+
+  return (
+    calculateIncomeTax(otherTaxableIncome + netCapitalGain, table).totalTax -
+    calculateIncomeTax(otherTaxableIncome, table).totalTax
+  );
+}
@@ -0,0 +1,135 @@
+// lib/debtProEngine.test.ts
+
+import { describe, expect, it } from "vitest";
+import {
+  runDebtProSimulation,
+  type BaseInputs,
+  type ExitEvent,
+  type InvestmentProperty,
+  type TipInputs,
+} from "./debtProEngine";
+
+const base: BaseInputs = {
+  propertyValueHome: 900_000,
+  homeLoanBalance: 600_000,
+  homeLoanRate: 0.055,
+  loanTermYears: 30,
+  minRepaymentMonthly: 3_500,
+  fixedRateSplits: [],
+  homeLoanType: "principalAndInterest",
+  homeLoanInterestOnlyYears: 0,
+  refinanceEvents: [],
+  lifeEvents: [],
+  earners: [{ label: "You", grossSalaryAnnual: 170_000, salaryGrowthRate: 0.03 }],
+  livingExpensesAnnualExMortgage: 50_000,
+  offsetBalance: 40_000,
+  emergencyFundTarget: 20_000,
+};
+
+const property: InvestmentProperty = {
+  label: "Investment property 1",
+  trigger: { kind: "year", yearIndex: 0 },
+  price: 700_000,
+  state: "NSW",
+  legalCosts: 2_000,
+  inspectionCosts: 600,
+  growthRate: 0.03,
+  rentAnnual: 35_000,
+  managementFeeRate: 0.07,
+  vacancyWeeks: 2,
+  councilStrataAnnual: 4_000,
+  insuranceAnnual: 1_500,
+  maintenanceAnnual: 2_000,
+  landValue: 350_000,
+  buildingCost: 250_000,
+  buildingAgeYears: 5,
+  plantAndEquipment: 15_000,
+  plantEffectiveLifeYears: 10,
+  loanRate: 0.06,
+  loanType: "interestOnly",
+  interestOnlyYears: 5,
+  loanTermYears: 30,
+  ownershipShare: 1,
+};
+
+const tips: TipInputs = {
+  tip1_enabled: true,
+  tip2_enabled: true,
+  tip3_enabled: true,
+  tip4_enabled: true,
+  tip5_enabled: true,
+  tip6_enabled: true,
+  tip1_extraSavingsPerMonth: 300,
+  tip3_repaymentFrequency: "halfMonthlyFortnightly",
+  tip5_properties: [property],
+  tip6_recyclePerYear: 10_000,
+  tip6_loanRate: 0.062,
+  tip6_investReturn: 0.07,
+  tip6_dividendYield: 0.04,
+  tip6_frankingRate: 0.7,
+  tip6_companyTaxRate: 0.3,
+  tip6_ownershipShare: 1,
+};
+
+// Cash the sale itself raised after selling costs, loan payouts and CGT
+const saleCash = ({ sale }: ExitEvent) =>
+  sale.ipSalePrice -
+  sale.ipSellingCosts -
+  sale.ipLoanRepaid +
+  sale.portfolioValue -
+  sale.investmentLoanRepaid -
+  sale.cgtPayable;
+
+describe("runDebtProSimulation – exit", () => {
+  it("stops debt recycling for good once the portfolio is sold", () => {
+    const result = runDebtProSimulation(
+      base,
+      { ...tips, tip5_enabled: false },
+      { exitStrategy: "atYear", exitYearIndex: 2 }
+    );
+
+    expect(result.exit?.yearIndex).toBe(2);
+    expect(result.exit?.clearedHomeLoan).toBe(false);
+    const after = result.years.filter((y) => y.yearIndex > 2);
+    expect(after.some((y) => y.homeLoanBalance > 0)).toBe(true);
+    for (const y of after) {
+      expect(y.investContributions).toBe(0);
+      expect(y.investPortfolioValue).toBe(0);
+      expect(y.investmentLoanBalance).toBe(0);
+      expect(y.debtRecyclingPaydowns).toBe(0);
+    }
+  });
+
+  it("buys and recycles nothing from a set exit year that had nothing to sell", () => {
+    // Without an exit, recycling starts the year the IP is bought
+    const planned = runDebtProSimulation(base, tips, {});
+    const purchaseYear = planned.years.find((y) => y.ipValue > 0)!.yearIndex;
+    expect(planned.years[purchaseYear].investContributions).toBeGreaterThan(0);
+
+    const result = runDebtProSimulation(base, tips, {
+      exitStrategy: "atYear",
+      exitYearIndex: purchaseYear,
+    });
+
+    expect(result.exit).toBeUndefined();
+    for (const y of result.years.filter((y) => y.yearIndex >= purchaseYear)) {
+      expect(y.ipValue).toBe(0);
+      expect(y.investContributions).toBe(0);
+    }
+  });
+
+  it("waits for a sale that nets cash when exiting at the debt-free point", () => {
+    // Enough offset cash to clear the loan straight after buying the IP
+    const result = runDebtProSimulation(
+      { ...base, homeLoanBalance: 300_000, offsetBalance: 320_000 },
+      tips,
+      { exitStrategy: "atDebtFree" }
+    );
+
+    const bought = result.years.find((y) => y.ipValue > 0)!;
+    expect(bought.couldClearHomeLoan).toBe(true);
+    expect(result.exit).toBeDefined();
+    expect(result.exit!.yearIndex).toBeGreaterThan(bought.yearIndex);
+    expect(saleCash(result.exit!)).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -1,76 +1,347 @@
 // lib/debtProEngine.ts
 
+import {
+  DAYS_PER_YEAR,
+  impliedTermMonths,
+  periodRepayment,
+  repaymentPeriodDays,
+  amortisePeriod,
+  scheduledRepayment,
+  type InterestMethod,
+  type LoanType,
+  type RepaymentFrequency,
+} from "./loanMaths";
+import {
+  amortiseSplitsPeriod,
+  createLoanSplits,
+  repayLoanSplits,
+  totalBreakCosts,
+  totalSplitBalance,
+  totalSplitMinimum,
+  updateSplitsForYear,
+  withFixedTermsForYear,
+  type FixedRateSplit,
+  type LoanSplitState,
+} from "./loanSplits";
+import { calculateIncomeTax, frankingCredit } from "./incomeTax";
+import { financialYearFor, getTaxTable } from "./taxTables";
+import {
+  EMPTY_RATE_SCHEDULE,
+  resolveRateShifts,
+  type RateSchedule,
+} from "./rateSchedule";
+import {
+  assessLending,
+  DEFAULT_LENDER_POLICY,
+  type BindingConstraint,
+  type LenderPolicy,
+  type LendingAssessment,
+} from "./lenderPolicy";
+import {
+  addHoldingCosts,
+  capitalWorksDeduction,
+  EMPTY_HOLDING_COSTS,
+  holdingCostsForYear,
+  landTaxForHoldings,
+  plantDeduction,
+  type DepreciationSchedule,
+  type HoldingCostBreakdown,
+} from "./holdingCosts";
+import {
+  BORROWING_COST_DEDUCTION_YEARS,
+  calculatePurchaseCosts,
+  stampDuty,
+  type AustralianState,
+  type PurchaseCostBreakdown,
+} from "./purchaseCosts";
+import {
+  assessCapitalGains,
+  capitalGainsTax,
+  type CgtParcel,
+} from "./capitalGains";
+
 // ─────────────────────────────────────────────
 // 1. Types
 // ─────────────────────────────────────────────
 
+export type RefinanceTarget = "homeLoan" | "ipLoan" | "both";
+
+// Switch lender at the start of `yearIndex`. The new rate then moves with
+// the market like the old one did; any interest-only period ends.
+export type RefinanceEvent = {
+  yearIndex: number;
+  target: RefinanceTarget;
+  newRate: number;
+  newTermYears: number;
+  dischargeFee: number;   // paid to the old lender
+  applicationFee: number; // paid to the new lender
+  cashback: number;
+};
+
+// Things that happen to the household in a given year. Amounts are
+// after tax and in that year's dollars.
+export type LifeEvent =
+  | {
+      kind: "lumpSum";        // bonus, inheritance (+) or car, renovation (-)
+      label: string;
+      yearIndex: number;
+      amount: number;
+    }
+  | {
+      kind: "incomeChange";   // parental leave, sabbatical, part-time work
+      label: string;
+      yearIndex: number;
+      years: number;
+      incomeFactor: number;   // share of normal salary earned, e.g. 0.5
+      earnerIndex?: number;   // whose salary; undefined = everyone's
+    }
+  | {
+      kind: "expenseChange";  // school fees (+), kids leaving home (-)
+      label: string;
+      yearIndex: number;
+      annualAmount: number;   // permanent change, grows with CPI afterwards
+    };
+
+export type LifeEventKind = LifeEvent["kind"];
+
+// One person's employment income, taxed in their own hands
+export type Earner = {
+  label: string;
+  grossSalaryAnnual: number; // before-tax salary now
+  salaryGrowthRate: number;  // e.g. 0.03 for 3% p.a.
+};
+
 export type BaseInputs = {
   propertyValueHome: number;
   homeLoanBalance: number;
   homeLoanRate: number; // e.g. 0.06 for 6% p.a.
-  minRepaymentMonthly: number;
-
-  marginalTaxRate: number; // incl. Medicare, e.g. 0.39
-
-  netIncomeAnnual: number;                // after-tax income now
+  loanTermYears: number; // remaining term of the home loan
+  minRepaymentMonthly: number; // what you pay now (at least the P&I minimum)
+  fixedRateSplits: FixedRateSplit[]; // fixed portions; the rest is variable at homeLoanRate
+  homeLoanType: LoanType;
+  homeLoanInterestOnlyYears: number; // then P&I for the rest of the term
+  refinanceEvents: RefinanceEvent[];
+  lifeEvents: LifeEvent[];
+
+  earners: Earner[];                      // one or two people
   livingExpensesAnnualExMortgage: number; // non-mortgage expenses
 
   offsetBalance: number;
   emergencyFundTarget: number;
 };
 
+// When a planned investment property goes on the market. The lender
+// still has to approve it, so it's bought in the first year from the
+// trigger that it passes the equity and serviceability tests.
+export type PurchaseTrigger =
+  | { kind: "year"; yearIndex: number }        // no earlier than this year
+  | { kind: "equity"; usableEquity: number }   // once usable equity reaches this
+  | { kind: "afterPrevious"; years: number };  // N years after the one before it
+
+export type PurchaseTriggerKind = PurchaseTrigger["kind"];
+
+// One planned investment property (Tip 5). Costs are in today's dollars.
+export type InvestmentProperty = {
+  label: string;
+  trigger: PurchaseTrigger;
+  price: number;
+  state: AustralianState;     // sets stamp duty and land tax
+  legalCosts: number;
+  inspectionCosts: number;
+  growthRate: number;         // e.g. 0.04 p.a.
+
+  rentAnnual: number;         // fully let, before vacancy
+  managementFeeRate: number;  // share of rent collected
+  vacancyWeeks: number;
+  councilStrataAnnual: number;
+  insuranceAnnual: number;
+  maintenanceAnnual: number;
+  landValue: number;          // at purchase; sets the land tax
+  buildingCost: number;       // Div 43 construction cost
+  buildingAgeYears: number;   // at purchase
+  plantAndEquipment: number;  // Div 40 assets' value at purchase
+  plantEffectiveLifeYears: number;
+
+  loanRate: number;           // e.g. 0.06
+  loanType: LoanType;
+  interestOnlyYears: number;  // then P&I for the rest of the term
+  loanTermYears: number;
+  ownershipShare: number;     // first earner's share, e.g. 0.5 (the rest is the second earner's)
+};
+
 export type TipInputs = {
+  // Which strategies are switched on (a disabled tip keeps its inputs)
+  tip1_enabled: boolean;
+  tip2_enabled: boolean;
+  tip3_enabled: boolean;
+  tip4_enabled: boolean;
+  tip5_enabled: boolean;
+  tip6_enabled: boolean;
+
   // Tip 1 – extra savings to boost repayments
   tip1_extraSavingsPerMonth: number;
 
-  // Tip 4 – salary growth, 50% of net increase to mortgage
-  tip4_salaryGrowthRate: number; // e.g. 0.03 for 3% p.a.
+  // Tip 2 – offset account: surplus is swept into the offset (no inputs)
 
-  // Tip 5 – investment property
-  tip5_purchaseYear: number;      // now effectively unused, but you can keep or remove
-  tip5_purchasePrice: number;
-  tip5_purchaseCostsRate: number; // NEW: decimal, e.g. 0.05 for 5% purchase costs
-  tip5_rentAnnual: number;
-  tip5_expensesAnnual: number;
-  tip5_ipLoanRate: number;        // e.g. 0.06
+  // Tip 3 – repayment frequency (monthly when disabled)
+  tip3_repaymentFrequency: RepaymentFrequency;
+
+  // Tip 4 – repayments rise with the household's salary growth (no inputs)
+
+  // Tip 5 – investment properties, bought in list order as each
+  // trigger (and the lender) allows
+  tip5_properties: InvestmentProperty[];
 
   // Tip 6 – debt recycling
-  tip6_recyclePerYear: number;
+  tip6_recyclePerYear: number;    // one-off kick-off, paid from spare offset cash
+  tip6_loanRate: number;          // recycled (deductible) split, e.g. 0.062
   tip6_investReturn: number;
   tip6_dividendYield: number;
+  tip6_frankingRate: number;      // share of dividends that are franked, e.g. 0.8
+  tip6_companyTaxRate: number;    // rate the franking credits were paid at, e.g. 0.3
+  tip6_ownershipShare: number;    // first earner's share of the portfolio
 };
 
 
+// "none"        – only report when selling could clear the home loan
+// "atDebtFree"  – actually sell at the first year it could without the
+//                 sale itself losing cash
+// "atYear"      – sell at `exitYearIndex`, whether or not it clears the loan;
+//                 nothing is bought or recycled from that year on
+export type ExitStrategy = "none" | "atDebtFree" | "atYear";
+
+// Year-by-year overrides (indexed by yearIndex), e.g. one Monte Carlo draw.
+// Missing years fall back to the fixed assumptions / tip inputs.
+export type MarketPaths = {
+  homeGrowthRate: number[];
+  ipGrowthRate: number[];
+  investReturn: number[]; // total portfolio return; the dividend yield is unchanged
+  rateShift: number[];    // added to every loan rate that year
+};
+
 export type Assumptions = {
   projectionYears: number;   // max years to simulate
   homeGrowthRate: number;    // e.g. 0.03 p.a.
   ipGrowthRate: number;      // e.g. 0.03 p.a.
-  effectiveCgtRate: number;  // simple effective CGT on portfolio gains, e.g. 0.1
+  interestMethod: InterestMethod; // how home loan interest is charged each period
+  startDate: string;              // ISO date the projection starts, e.g. "2026-07-01"
+  taxBracketIndexation: number;   // p.a. indexation of tax thresholds beyond known tables (0 = bracket creep)
+  exitStrategy: ExitStrategy;     // whether the IP + portfolio are actually sold
+  exitYearIndex: number;          // sale year when exitStrategy = "atYear"
+  projectFullHorizon: boolean;    // keep projecting after the home loan is repaid
+  rateSchedule: RateSchedule;     // planned rate changes on top of today's rates
+  lenderPolicy: LenderPolicy;     // equity & serviceability rules for the IP loan
+  marketPaths?: Partial<MarketPaths>;
+};
+
+// Itemised "sell the IP + portfolio at the end of this year" figures
+export type SaleBreakdown = {
+  ipSalePrice: number;
+  ipSellingCosts: number;
+  ipCostBase: number;       // price + purchase costs (excl. LMI), less capital works claimed
+  ipCapitalGain: number;    // before discount; negative = capital loss
+  ipLoanRepaid: number;
+
+  portfolioValue: number;
+  investmentLoanRepaid: number; // recycled loan cleared alongside the portfolio
+  portfolioCostBase: number; // sum of recycled (and reinvested) parcels
+  portfolioCapitalGain: number;
+
+  netCapitalGain: number;   // after losses and the 50% discount (all owners)
+  cgtPayable: number;       // at each owner's marginal rates that year
+
+  offsetAvailable: number;  // offset cash above the emergency fund
+  totalAvailable: number;   // net cash that could go onto the home loan
+  homeLoanBreakCosts: number; // to repay fixed splits early (on top of the balance)
+};
+
+// One earner's tax position for the year
+export type EarnerYearState = {
+  label: string;
+  grossSalary: number;
+  taxableIncome: number;   // salary + their share of IP and investment net income
+  frankingCredits: number; // their share, as a refundable offset
+  incomeTax: number;       // after franking credits (negative = refund)
+  marginalTaxRate: number; // incl. Medicare, on the next dollar earned
+};
+
+// One investment property's year (all zero until it's bought and after
+// it's sold)
+export type PropertyYearState = {
+  label: string;
+  held: boolean;
+  value: number;
+  loanBalance: number;
+  loanRate: number;
+  rentCollected: number;
+  cashExpenses: number;
+  interest: number;
+  principalRepaid: number;
+  netBeforeTax: number; // after depreciation & borrowing costs; negative = geared loss
+};
+
+// A year of debt recycling: the non-deductible home loan is paid down,
+// then the same amount is redrawn on the deductible split and invested
+export type DebtRecyclingLedger = {
+  nonDeductibleOpening: number; // home loan at the start of the year
+  deductibleOpening: number;    // recycled loan at the start of the year
+  fromExtraRepayments: number;  // repayments above the minimum
+  fromOffset: number;           // kick-off, paid from spare offset cash
+  fromDividends: number;
+  fromTaxRefunds: number;
+  redrawn: number;              // total moved to the deductible split & invested
+  deductibleInterest: number;   // at the recycled split's own rate, paid in cash
+  nonDeductibleClosing: number;
+  deductibleClosing: number;
 };
 
 // Snapshot of a single year in the simulation
 export type YearState = {
   yearIndex: number; // 0 = start year
+  financialYear: number; // year the financial year ends in, e.g. 2027 = 2026–27
 
   // Income & expenses
-  netIncome: number;
+  grossSalary: number;
+  netIncome: number; // salary after tax on salary alone
   livingExpenses: number;
+  oneOffInflows: number;  // life event lump sums received
+  oneOffOutflows: number; // life event lump sums spent
 
+  homeLoanRate: number;       // rate charged this year (after any schedule / shocks)
+  ipLoanRate: number;         // balance-weighted across IP loans (0 when none)
+  recycledLoanRate: number;
   homeLoanInterest: number;
   homeLoanRepayments: number; // total paid this year towards home loan
   minRepaymentMonthly: number; // minimum required in this year
+  minRepaymentsAnnual: number; // minimum paid at the chosen frequency
 
-  ipRent: number;
-  ipExpenses: number;
+  // Investment properties, totalled (see `properties` for each one)
+  ipRent: number;     // rent collected, after vacancy
+  ipExpenses: number; // cash holding costs (excl. interest)
+  ipCosts: HoldingCostBreakdown; // line by line, incl. depreciation
   ipInterest: number;
+  ipPrincipalRepaid: number;
+  ipBorrowingCostsDeducted: number; // LMI written off over 5 years (non-cash)
+  refinanceCosts: number; // fees + break costs less cashback (negative = net cashback)
 
-  investIncome: number;
+  investIncome: number;        // dividends, paid out in cash
+  frankingCredits: number;     // grossed up into taxable income, then offset
   investContributions: number; // recycled debt drawn & invested this year
+  debtRecyclingInterest: number;
+  debtRecyclingPaydowns: number; // dividends + tax refunds paid onto the home loan
+  debtRecycling: DebtRecyclingLedger;
   taxEffectNet: number; // net tax benefit / (extra tax) from IP + investments
 
+  taxableIncome: number;   // salary + IP and investment net income (all earners)
+  incomeTax: number;       // household tax payable on taxableIncome, after franking credits
+  marginalTaxRate: number; // highest earner's rate, incl. Medicare
+  earners: EarnerYearState[];
+
   totalIncome: number;
   totalExpenses: number;
   surplusCashflow: number;
+  offsetSweep: number;        // surplus moved into (+) / drawn from (-) the offset
+  unfundedShortfall: number;  // shortfall the offset couldn't cover
 
   // Assets
   homeValue: number;
@@ -80,6 +351,7 @@ export type YearState = {
 
   // Liabilities
   homeLoanBalance: number;
+  homeLoanSplits: LoanSplitState[]; // variable split first, then fixed splits
   ipLoanBalance: number;
   investmentLoanBalance: number;
 
@@ -89,28 +361,239 @@ export type YearState = {
 
   // “Could clear the home loan if we sold everything?” test
   couldClearHomeLoan: boolean;
-  totalAvailableIfSold: number; // after simple CGT
+  totalAvailableIfSold: number; // after CGT, plus spare offset cash
+  saleBreakdown: SaleBreakdown;
+  exitExecuted: boolean; // IP + portfolio actually sold this year
+
+  properties: PropertyYearState[]; // one per planned property, in list order
+};
+
+// The sale carried out when an exit strategy is switched on
+export type ExitEvent = {
+  yearIndex: number;
+  sale: SaleBreakdown;
+  homeLoanRepaid: number;
+  breakCostsPaid: number;  // fixed split break costs paid on the way
+  offsetUsed: number;      // spare offset cash put towards the home loan
+  cashRetained: number;    // sale proceeds left over after the home loan
+  clearedHomeLoan: boolean;
+};
+
+// Single repayment period of the home loan (drill-down below YearState)
+export type PeriodState = {
+  yearIndex: number;
+  periodIndex: number; // 0-based within the year
+  days: number;
+
+  openingBalance: number;
+  interest: number;
+  repayment: number;
+  principal: number;
+  closingBalance: number;
+  offsetBalance: number;
+};
+
+export type StrategyId = 1 | 2 | 3 | 4 | 5 | 6;
+
+// What switching a strategy on adds, on top of the strategies before it
+export type StrategyContribution = {
+  strategyId: StrategyId;
+  enabled: boolean;
+  interestSaved: number;
+  monthsSaved: number;
+  debtFreeMonths?: number; // cumulative plan up to and including this strategy
+};
+
+// Inputs that don't add up, reported rather than silently corrected
+export type SimulationWarning = {
+  kind: "minimumBelowAmortising";
+  enteredMonthly: number;
+  requiredMonthly: number; // P&I repayment over the remaining term
+};
+
+// Itemised costs when the IP is bought
+export type PropertyPurchase = {
+  yearIndex: number;
+  price: number;
+  costs: PurchaseCostBreakdown;
+};
+
+// The lender's view of an IP purchase
+export type IpPurchaseCheck = {
+  yearIndex: number;              // purchase year, or the last year it was tested
+  purchased: boolean;
+  assessment: LendingAssessment;  // in that year
+  heldBackBy: BindingConstraint;  // test(s) that delayed or blocked the purchase
+};
+
+// What happened to each planned property
+export type IpPurchaseOutcome = {
+  label: string;
+  purchase?: PropertyPurchase;
+  check?: IpPurchaseCheck;        // undefined = its trigger never came round
 };
 
 export type SimulationResult = {
   years: YearState[];
-  debtFreeYearIndex?: number;  // first yearIndex where couldClearHomeLoan = true
+  periods: PeriodState[];
+  ipPurchases: IpPurchaseOutcome[]; // one per planned property (none when Tip 5 is off)
+  debtFreeYearIndex?: number;  // first yearIndex where couldClearHomeLoan = true (or the loan is repaid)
+  debtFreeMonths?: number;     // months from the start until that point
+  exit?: ExitEvent;
+  warnings: SimulationWarning[];
+};
+
+// Strategy vs "minimum repayments only" on the same inputs
+export type BaselineComparison = {
+  strategyInterest: number;      // home loan interest up to the debt-free point
+  baselineInterest: number;
+  interestSaved: number;
+
+  strategyDebtFreeMonths?: number;
+  baselineDebtFreeMonths?: number;
+  monthsSaved?: number;          // lower bound when the baseline never clears
+  baselineClearsInProjection: boolean;
+
+  netWorthYearIndex: number;     // year the net worth comparison is taken at
+  netWorthDifference: number;    // strategy minus baseline
+};
+
+// The plan re-run with every loan rate permanently `rateShift` higher
+export type RateStressResult = {
+  rateShift: number;
+  worstDeficit: number;              // largest single-year negative surplus, drawn from the offset (0 if none)
+  worstDeficitYearIndex?: number;
+  worstShortfall: number;            // largest single-year deficit the offset couldn't cover (0 if none)
+  worstShortfallYearIndex?: number;
+  debtFreeMonths?: number;
+  debtFreeShiftMonths?: number;      // later (+) than the unstressed plan; undefined if it never clears
+};
+
+// One refinance event vs staying with the current lender
+export type RefinanceAnalysis = {
+  eventIndex: number;
+  switchingCosts: number;         // fees + break costs less cashback
+  interestSaved: number;          // home + IP loan interest over the projection
+  breakEvenYearIndex?: number;    // first year cumulative savings cover the costs
+  debtFreeShiftMonths?: number;   // sooner (-) / later (+) than staying put
+};
+
+// The same plan with the IP and portfolio held in different names
+export type OwnershipComparison = {
+  ipShare: number;        // first earner's share of the IP
+  portfolioShare: number; // first earner's share of the portfolio
+  incomeTaxPaid: number;  // household income tax up to the comparison year
+  cgtPayable: number;     // if both were sold in the comparison year
+  debtFreeMonths?: number;
+  netWorth: number;       // at the comparison year
 };
 
 // ─────────────────────────────────────────────
 // 2. Default assumptions
 // ─────────────────────────────────────────────
 
-const DEFAULT_ASSUMPTIONS: Assumptions = {
+export const DEFAULT_ASSUMPTIONS: Assumptions = {
   projectionYears: 30,
   homeGrowthRate: 0.03,
   ipGrowthRate: 0.03,
-  effectiveCgtRate: 0.10,
+  interestMethod: "daily",
+  startDate: "2026-07-01",
+  taxBracketIndexation: 0,
+  exitStrategy: "none",
+  exitYearIndex: 9,
+  projectFullHorizon: false,
+  rateSchedule: EMPTY_RATE_SCHEDULE,
+  lenderPolicy: DEFAULT_LENDER_POLICY,
 };
 
 // Simple CPI assumption used for living costs and IP rent/expenses
 const CPI_RATE = 0.03;
 
+// Agent, advertising and legal costs when selling the IP
+const IP_SELLING_COST_RATE = 0.03;
+
+const STRATEGY_IDS: StrategyId[] = [1, 2, 3, 4, 5, 6];
+
+// A recycled (or reinvested) parcel of the portfolio, kept separately
+// so each has its own cost base and holding period for CGT
+type PortfolioParcel = {
+  costBase: number;
+  value: number;
+  acquiredYearIndex: number;
+};
+
+// Running state of one planned investment property
+type HeldProperty = {
+  plan: InvestmentProperty;
+  shares: number[];        // each earner's share
+  purchase?: PropertyPurchase;
+  check?: IpPurchaseCheck;
+  value: number;
+  loanBalance: number;
+  costBase: number;        // price + purchase costs (excl. LMI), less capital works claimed
+  landValue: number;
+  plantValue: number;      // Div 40 written-down value
+  loanTerm: { startYearIndex: number; months: number };
+  interestOnlyUntil: number;
+  rateMargin: number;      // refinanced rate vs the market rate at the time
+};
+
+// Has a property's trigger come round? `previousPurchaseYearIndex` is
+// when the one before it was bought (undefined if it hasn't been), and
+// `usableEquity` is across the home and any properties already held.
+function purchaseTriggered(
+  trigger: PurchaseTrigger,
+  yearIndex: number,
+  previousPurchaseYearIndex: number | undefined,
+  usableEquity: number
+): boolean {
+  switch (trigger.kind) {
+    case "year":
+      return yearIndex >= trigger.yearIndex;
+    case "equity":
+      return usableEquity >= trigger.usableEquity;
+    case "afterPrevious":
+      return (
+        previousPurchaseYearIndex !== undefined &&
+        yearIndex >= previousPurchaseYearIndex + trigger.years
+      );
+  }
+}
+
+function withStrategiesEnabled(
+  tips: TipInputs,
+  isEnabled: (id: StrategyId) => boolean
+): TipInputs {
+  return {
+    ...tips,
+    tip1_enabled: isEnabled(1),
+    tip2_enabled: isEnabled(2),
+    tip3_enabled: isEnabled(3),
+    tip4_enabled: isEnabled(4),
+    tip5_enabled: isEnabled(5),
+    tip6_enabled: isEnabled(6),
+  };
+}
+
+// Share of the IP / portfolio held by each earner; a single earner
+// owns everything
+function ownershipShares(earnerCount: number, firstShare: number): number[] {
+  if (earnerCount <= 1) return [1];
+  const first = Math.min(1, Math.max(0, firstShare));
+  return [first, 1 - first, ...new Array<number>(earnerCount - 2).fill(0)];
+}
+
+function isStrategyEnabled(tips: TipInputs, id: StrategyId): boolean {
+  return [
+    tips.tip1_enabled,
+    tips.tip2_enabled,
+    tips.tip3_enabled,
+    tips.tip4_enabled,
+    tips.tip5_enabled,
+    tips.tip6_enabled,
+  ][id - 1];
+}
+
 // ─────────────────────────────────────────────
 // 3. Main entry point
 // ─────────────────────────────────────────────
@@ -126,232 +609,894 @@ export function runDebtProSimulation(
   };
 
   const years: YearState[] = [];
+  const periods: PeriodState[] = [];
+
+  const startFinancialYear = financialYearFor(new Date(assumptions.startDate));
 
   // Running state across years
-  let netIncome = base.netIncomeAnnual;
+  const earnerSalaries = base.earners.map((earner) => earner.grossSalaryAnnual);
+  const startingSalary = earnerSalaries.reduce((sum, salary) => sum + salary, 0);
+  const portfolioShares = ownershipShares(
+    base.earners.length,
+    tips.tip6_ownershipShare
+  );
   let livingExpenses = base.livingExpensesAnnualExMortgage;
   let minRepaymentMonthly = base.minRepaymentMonthly;
 
   let homeValue = base.propertyValueHome;
-  let homeLoanBalance = base.homeLoanBalance;
 
   let offsetBalance = base.offsetBalance;
 
-  // Tip 5 / 6 state (we'll flesh out later)
-  let ipValue = 0;
-  let ipLoanBalance = 0;
-  let hasPurchasedIP = false;
-  let purchasedIPThisYear = false;
-  let ipPurchaseYearIndex: number | null = null;
+  // Tip 5 state, one entry per planned property
+  const properties: HeldProperty[] = (tips.tip5_enabled ? tips.tip5_properties : []).map(
+    (plan) => ({
+      plan,
+      shares: ownershipShares(base.earners.length, plan.ownershipShare),
+      value: 0,
+      loanBalance: 0,
+      costBase: 0,
+      landValue: 0,
+      plantValue: 0,
+      loanTerm: { startYearIndex: 0, months: plan.loanTermYears * 12 },
+      interestOnlyUntil: 0,
+      rateMargin: 0,
+    })
+  );
 
+  // Tip 6 state
   let investPortfolioValue = 0;
-  let investmentLoanBalance = 0; // recycled, deductible debt
+  const portfolioParcels: PortfolioParcel[] = [];
+  let investmentLoanBalance = 0; // recycled, deductible split
+  let recyclingStartYearIndex: number | null = null;
 
   let debtFreeYearIndex: number | undefined;
+  let debtFreeMonths: number | undefined;
+  let exit: ExitEvent | undefined;
+
+  const warnings: SimulationWarning[] = [];
+
+  // Contractual P&I minimum over the remaining term, per split. Lenders
+  // re-amortise it whenever the rate moves; without a term, fall back to
+  // the term implied by today's repayment.
+  const initialTermMonths =
+    base.loanTermYears > 0
+      ? base.loanTermYears * 12
+      : impliedTermMonths(
+          base.homeLoanBalance,
+          base.homeLoanRate,
+          base.minRepaymentMonthly
+        );
+  // Term and interest-only period, reset when the loan is refinanced
+  let homeLoanTerm = { startYearIndex: 0, months: initialTermMonths };
+  let homeLoanInterestOnlyUntil =
+    base.homeLoanType === "interestOnly" ? base.homeLoanInterestOnlyYears : 0;
+  let homeRateMargin = 0; // refinanced rate vs the market rate at the time
+
+  let loanSplits = createLoanSplits(
+    base.homeLoanBalance,
+    base.homeLoanRate,
+    base.fixedRateSplits,
+    initialTermMonths,
+    homeLoanInterestOnlyUntil > 0
+  );
+  let homeLoanBalance = totalSplitBalance(loanSplits);
+
+  const contractualMinimumMonthly = totalSplitMinimum(loanSplits);
+  if (base.minRepaymentMonthly < contractualMinimumMonthly - 0.5) {
+    warnings.push({
+      kind: "minimumBelowAmortising",
+      enteredMonthly: base.minRepaymentMonthly,
+      requiredMonthly: contractualMinimumMonthly,
+    });
+  }
 
-  const baseMinRepaymentMonthly = base.minRepaymentMonthly;
+  const repaymentFrequency: RepaymentFrequency = tips.tip3_enabled
+    ? tips.tip3_repaymentFrequency
+    : "monthly";
+
+  const paths = assumptions.marketPaths ?? {};
+  const scheduledRateShifts = resolveRateShifts(
+    assumptions.rateSchedule,
+    base.homeLoanRate,
+    assumptions.projectionYears
+  );
 
   for (let yearIndex = 0; yearIndex < assumptions.projectionYears; yearIndex++) {
+    // Nothing is bought or recycled once the plan has exited – or, for a
+    // set exit year, from that year on even if there's nothing to sell
+    const exitReached =
+      exit !== undefined ||
+      (assumptions.exitStrategy === "atYear" && yearIndex >= assumptions.exitYearIndex);
+
+    // Market conditions this year (fixed unless a path is supplied)
+    const homeGrowthRate =
+      paths.homeGrowthRate?.[yearIndex] ?? assumptions.homeGrowthRate;
+    // A market path moves every property away from its own growth rate
+    const ipGrowthShift =
+      (paths.ipGrowthRate?.[yearIndex] ?? assumptions.ipGrowthRate) -
+      assumptions.ipGrowthRate;
+    const investReturn = paths.investReturn?.[yearIndex] ?? tips.tip6_investReturn;
+    const rateShift =
+      scheduledRateShifts[yearIndex] + (paths.rateShift?.[yearIndex] ?? 0);
+
+    const financialYear = startFinancialYear + yearIndex;
+    const taxTable = getTaxTable(financialYear, assumptions.taxBracketIndexation);
+
+    // ─────────────────────────────────────────
+    // 3.0 Refinancing (from the start of the year)
+    // The new lender pays out the old loan – breaking any fixed splits –
+    // and the new rate then moves with the market.
+    // ─────────────────────────────────────────
+    let refinanceCosts = 0;
+    for (const event of base.refinanceEvents) {
+      if (event.yearIndex !== yearIndex) continue;
+
+      const refinanceHome = event.target !== "ipLoan" && homeLoanBalance > 0.01;
+      const ipLoansToMove = properties.filter((property) => property.loanBalance > 0.01);
+      const refinanceIp = event.target !== "homeLoan" && ipLoansToMove.length > 0;
+      if (!refinanceHome && !refinanceIp) continue;
+
+      if (refinanceHome) {
+        // Break costs on the fixed years left from this year, not last year
+        refinanceCosts += totalBreakCosts(
+          withFixedTermsForYear(loanSplits, yearIndex),
+          rateShift
+        );
+        homeRateMargin = event.newRate - (base.homeLoanRate + rateShift);
+        homeLoanTerm = { startYearIndex: yearIndex, months: event.newTermYears * 12 };
+        homeLoanInterestOnlyUntil = yearIndex;
+        loanSplits = createLoanSplits(
+          homeLoanBalance,
+          event.newRate,
+          [],
+          homeLoanTerm.months,
+          false
+        );
+      }
+      if (refinanceIp) {
+        for (const property of ipLoansToMove) {
+          property.rateMargin = event.newRate - (property.plan.loanRate + rateShift);
+          property.loanTerm = { startYearIndex: yearIndex, months: event.newTermYears * 12 };
+          property.interestOnlyUntil = yearIndex;
+        }
+      }
+
+      refinanceCosts += event.dischargeFee + event.applicationFee - event.cashback;
+    }
+
+    const homeLoanRate = Math.max(0, base.homeLoanRate + rateShift + homeRateMargin);
+    const propertyLoanRate = (property: HeldProperty) =>
+      Math.max(0, property.plan.loanRate + rateShift + property.rateMargin);
+    const recycledLoanRate = Math.max(0, tips.tip6_loanRate + rateShift);
+
     // ─────────────────────────────────────────
     // 3.1 Update home value
     // ─────────────────────────────────────────
     if (yearIndex > 0) {
-      homeValue *= 1 + assumptions.homeGrowthRate;
+      homeValue *= 1 + homeGrowthRate;
       livingExpenses *= 1 + CPI_RATE; // grow living costs with CPI
     }
 
+    // Life events starting this year
+    let oneOffInflows = 0;
+    let oneOffOutflows = 0;
+    for (const event of base.lifeEvents) {
+      if (event.yearIndex !== yearIndex) continue;
+
+      if (event.kind === "lumpSum") {
+        if (event.amount >= 0) oneOffInflows += event.amount;
+        else oneOffOutflows += -event.amount;
+      } else if (event.kind === "expenseChange") {
+        livingExpenses = Math.max(0, livingExpenses + event.annualAmount);
+      }
+    }
+
     // ─────────────────────────────────────────
-    // 3.2 Tip 4 - salary growth
+    // 3.2 Tip 4 - salary growth (each earner at their own rate)
     // ─────────────────────────────────────────
-    let extraIncomeToMortgage = 0;
-    if (yearIndex > 0 && tips.tip4_salaryGrowthRate > 0) {
-      const previousIncome = netIncome;
-      netIncome = netIncome * (1 + tips.tip4_salaryGrowthRate);
-      const extraIncome = netIncome - previousIncome;
-      extraIncomeToMortgage = 0; // strategy now directs salary growth via min-based uplift below
+    // (the repayment uplift from salary growth is applied in 3.3)
+    if (yearIndex > 0) {
+      base.earners.forEach((earner, i) => {
+        earnerSalaries[i] *= 1 + earner.salaryGrowthRate;
+      });
     }
 
+    // Temporary income changes scale this year's salary only;
+    // the underlying salary keeps growing in the background
+    const salariesThisYear = earnerSalaries.map((salary, earnerIndex) =>
+      base.lifeEvents.reduce(
+        (amount, event) =>
+          event.kind === "incomeChange" &&
+          (event.earnerIndex === undefined || event.earnerIndex === earnerIndex) &&
+          yearIndex >= event.yearIndex &&
+          yearIndex < event.yearIndex + event.years
+            ? amount * event.incomeFactor
+            : amount,
+        salary
+      )
+    );
+    const salaryThisYear = salariesThisYear.reduce((sum, salary) => sum + salary, 0);
+
     // ─────────────────────────────────────────
     // 3.3 Tips 1 + 3 + 4 - annual home loan repayments
     // ─────────────────────────────────────────
+    loanSplits = updateSplitsForYear(
+      loanSplits,
+      yearIndex,
+      homeLoanRate,
+      rateShift,
+      homeLoanTerm.months - (yearIndex - homeLoanTerm.startYearIndex) * 12,
+      yearIndex < homeLoanInterestOnlyUntil
+    );
+    // The lender won't accept less than the contractual minimum
+    minRepaymentMonthly = Math.max(
+      base.minRepaymentMonthly,
+      totalSplitMinimum(loanSplits)
+    );
+
+    // Repayments rise in line with the household's (underlying) pay rises
     const salaryGrowthFactor =
-      tips.tip4_salaryGrowthRate > 0
-        ? Math.pow(1 + tips.tip4_salaryGrowthRate, yearIndex) - 1
+      tips.tip4_enabled && startingSalary > 0
+        ? Math.max(
+            0,
+            earnerSalaries.reduce((sum, salary) => sum + salary, 0) /
+              startingSalary -
+              1
+          )
         : 0;
     const salaryGrowthExtraMonthly =
-      baseMinRepaymentMonthly * salaryGrowthFactor;
+      minRepaymentMonthly * salaryGrowthFactor;
 
     const baseMonthlyRepayment =
-      baseMinRepaymentMonthly +
-      tips.tip1_extraSavingsPerMonth +
+      minRepaymentMonthly +
+      (tips.tip1_enabled ? tips.tip1_extraSavingsPerMonth : 0) +
       salaryGrowthExtraMonthly;
 
-    // Tip 3: pay fortnightly = 13 "months" of repayments per year
-    const annualRepaymentFromBaseAndTip1And3 = baseMonthlyRepayment * 13;
-
-    // Add Tip 4 extra (from salary growth) as extra annual repayment
-    const annualHomeLoanRepayments =
-      annualRepaymentFromBaseAndTip1And3 + extraIncomeToMortgage;
+    // Tip 3: repayment frequency – "half monthly paid fortnightly"
+    // makes 13 "months" of repayments per year
+    const periodDays = repaymentPeriodDays(repaymentFrequency);
+    const repaymentPerPeriod = periodRepayment(
+      baseMonthlyRepayment,
+      repaymentFrequency
+    );
+    const minAnnualRepay =
+      periodRepayment(minRepaymentMonthly, repaymentFrequency) *
+      periodDays.length;
 
     // ─────────────────────────────────────────
     // 3.4 Home loan interest & principal
-    // (simple annual interest approximation)
-    // Optionally adjust for offset by reducing effective balance
+    // (period-by-period amortisation, rolled up into the year)
+    // Offset above the emergency fund reduces the balance interest is charged on
     // ─────────────────────────────────────────
-    const effectiveHomeDebt = Math.max(
-      0,
-      homeLoanBalance - Math.max(0, offsetBalance - base.emergencyFundTarget)
-    );
-
-    const homeLoanInterest = effectiveHomeDebt * base.homeLoanRate;
-    let principalPaid = annualHomeLoanRepayments - homeLoanInterest;
-
-    if (principalPaid < 0) {
-      // Underpaying interest – in reality the loan would grow.
-      // For now, cap principalPaid at 0 and let interest capitalise.
-      principalPaid = 0;
-      homeLoanBalance = homeLoanBalance + homeLoanInterest;
-    } else {
-      homeLoanBalance = Math.max(
-        0,
-        homeLoanBalance - principalPaid
-      );
-    }
-
-    // In this first layer we’ll keep offsetBalance constant.
-    // Later we can decide to push surplus cash into offset.
+    const offsetAgainstLoan = Math.max(0, offsetBalance - base.emergencyFundTarget);
+    const homeLoanOpening = homeLoanBalance;
+
+    let homeLoanInterest = 0;
+    let annualHomeLoanRepayments = 0;
+    let elapsedDays = 0;
+    let paidOffAfterDays: number | undefined;
+
+    periodDays.forEach((days, periodIndex) => {
+      // Extra repayments go to the variable split first; fixed splits only
+      // take extras up to their annual cap
+      const amortised = amortiseSplitsPeriod({
+        splits: loanSplits,
+        offset: offsetAgainstLoan,
+        repayment: repaymentPerPeriod,
+        frequency: repaymentFrequency,
+        days,
+        periodsPerYear: periodDays.length,
+        method: assumptions.interestMethod,
+      });
+      const period = amortised.period;
+      loanSplits = amortised.splits;
+
+      homeLoanInterest += period.interest;
+      annualHomeLoanRepayments += period.repayment;
+      homeLoanBalance = period.closingBalance;
+
+      elapsedDays += days;
+      if (
+        paidOffAfterDays === undefined &&
+        period.openingBalance > 0.01 &&
+        period.closingBalance <= 0.01
+      ) {
+        paidOffAfterDays = elapsedDays;
+      }
+
+      periods.push({
+        yearIndex,
+        periodIndex,
+        days,
+        ...period,
+        offsetBalance,
+      });
+    });
 
     // ─────────────────────────────────────────
+    // 3.5 Investment properties (Tip 5)
     // ─────────────────────────────────────────
-// 3.5 Investment property (Tip 5)
-// ─────────────────────────────────────────
-let ipRent = 0;
-let ipExpenses = 0;
-let ipInterest = 0;
-
-// Buy the IP when 80% of home value minus home loan
-// (usable equity) is at least 30% of the IP purchase price.
-  if (!hasPurchasedIP && tips.tip5_purchasePrice > 0) {
-    const usableEquity = Math.max(0, homeValue * 0.8 - homeLoanBalance);
-    const requiredEquity = 0.3 * tips.tip5_purchasePrice;
-
-    if (usableEquity >= requiredEquity) {
-      hasPurchasedIP = true;
-      purchasedIPThisYear = true;
-      ipPurchaseYearIndex = yearIndex;
-      ipValue = tips.tip5_purchasePrice;
-
-      const purchaseCostRate = tips.tip5_purchaseCostsRate ?? 0;
-      const purchaseCosts = tips.tip5_purchasePrice * purchaseCostRate;
-
-    // 100% debt funded: price + costs
-    ipLoanBalance = tips.tip5_purchasePrice + purchaseCosts;
-  }
-}
+    let ipCosts = EMPTY_HOLDING_COSTS;
+    let ipInterest = 0;
+    let ipPrincipalRepaid = 0; // not deductible, but still cash out
+    let ipBorrowingCostsDeducted = 0;
+
+    // Buy each property (in list order) once its trigger has come round
+    // and the lender would approve it: usable equity across the home and
+    // the properties already held covers the deposit + costs, and the
+    // household can service every loan at the buffered assessment rate.
+    // Each purchase is fully debt funded.
+    properties.forEach((property, index) => {
+      const plan = property.plan;
+      if (property.purchase || exitReached || plan.price <= 0) return;
+
+      const held = properties.filter((p) => p.purchase !== undefined);
+      const securityValue = homeValue + held.reduce((sum, p) => sum + p.value, 0);
+      const securedDebt =
+        homeLoanBalance + held.reduce((sum, p) => sum + p.loanBalance, 0);
+      const previousPurchaseYearIndex =
+        index === 0 ? 0 : properties[index - 1].purchase?.yearIndex;
+      if (
+        !purchaseTriggered(
+          plan.trigger,
+          yearIndex,
+          previousPurchaseYearIndex,
+          securityValue * assumptions.lenderPolicy.maxLvr - securedDebt
+        )
+      ) {
+        return;
+      }
+
+      // Stamp duty and other costs (which also form the CGT cost base),
+      // plus LMI if all the secured debt is over 80% of the security
+      const loanBeforeLmi =
+        plan.price +
+        stampDuty(plan.state, plan.price) +
+        plan.legalCosts +
+        plan.inspectionCosts;
+      const costs = calculatePurchaseCosts({
+        state: plan.state,
+        price: plan.price,
+        legalCosts: plan.legalCosts,
+        inspectionCosts: plan.inspectionCosts,
+        loanAmount: loanBeforeLmi,
+        otherSecuredDebt: securedDebt,
+        otherSecurityValue: securityValue,
+      });
+      const loanRate = propertyLoanRate(property);
+
+      const assessment = assessLending(assumptions.lenderPolicy, {
+        price: plan.price,
+        purchaseCosts: costs.costBaseCosts,
+        newLoanAmount: plan.price + costs.total,
+        newLoanRate: loanRate,
+        rents: [
+          { rentAnnual: plan.rentAnnual, shares: property.shares },
+          ...held.map((p) => ({
+            rentAnnual:
+              p.plan.rentAnnual *
+              Math.pow(1 + CPI_RATE, yearIndex - (p.purchase?.yearIndex ?? yearIndex)),
+            shares: p.shares,
+          })),
+        ],
+        salaries: salariesThisYear,
+        livingExpensesAnnual: livingExpenses,
+        securityValue,
+        securedDebt,
+        existingDebts: [
+          { balance: homeLoanBalance, rate: homeLoanRate },
+          { balance: investmentLoanBalance, rate: recycledLoanRate },
+          ...held.map((p) => ({ balance: p.loanBalance, rate: propertyLoanRate(p) })),
+        ],
+        taxTable,
+      });
+
+      property.check = {
+        yearIndex,
+        purchased: assessment.approved,
+        assessment,
+        heldBackBy: assessment.approved
+          ? property.check?.assessment.bindingConstraint ?? "none"
+          : assessment.bindingConstraint,
+      };
+
+      if (assessment.approved) {
+        property.purchase = { yearIndex, price: plan.price, costs };
+        property.loanTerm = { startYearIndex: yearIndex, months: plan.loanTermYears * 12 };
+        property.interestOnlyUntil =
+          plan.loanType === "interestOnly" ? yearIndex + plan.interestOnlyYears : yearIndex;
+        property.value = plan.price;
+        property.loanBalance = plan.price + costs.total;
+        property.costBase = plan.price + costs.costBaseCosts;
+        property.landValue = plan.landValue;
+        property.plantValue = plan.plantAndEquipment;
+      }
+    });
 
-if (hasPurchasedIP) {
-  // simple growth after purchase
-  ipValue *= 1 + assumptions.ipGrowthRate;
+    // simple growth after purchase (the land moves with the property)
+    const isHeld = (property: HeldProperty) =>
+      property.purchase !== undefined && exit === undefined;
+    for (const property of properties) {
+      if (!isHeld(property)) continue;
+      const growthRate = property.plan.growthRate + ipGrowthShift;
+      property.value *= 1 + growthRate;
+      property.landValue *= 1 + growthRate;
+    }
 
-  const ipYearsHeld =
-    ipPurchaseYearIndex !== null ? yearIndex - ipPurchaseYearIndex : 0;
-  const rentGrowthFactor = Math.pow(1 + CPI_RATE, ipYearsHeld);
+    // Land tax on each owner's combined land in each state
+    const propertyLandTax = landTaxForHoldings(
+      properties.map((property) => ({
+        state: property.plan.state,
+        landValue: isHeld(property) ? property.landValue : 0,
+        shares: property.shares,
+      }))
+    );
 
-  ipRent = tips.tip5_rentAnnual * rentGrowthFactor;
-  ipExpenses = tips.tip5_expensesAnnual * rentGrowthFactor;
-  ipInterest = ipLoanBalance * tips.tip5_ipLoanRate;
+    const propertyYears: PropertyYearState[] = properties.map((property, k) => {
+      const plan = property.plan;
+      const purchase = property.purchase;
+      const loanRate = propertyLoanRate(property);
+      if (purchase === undefined || exit !== undefined) {
+        return {
+          label: plan.label,
+          held: false,
+          value: 0,
+          loanBalance: 0,
+          loanRate,
+          rentCollected: 0,
+          cashExpenses: 0,
+          interest: 0,
+          principalRepaid: 0,
+          netBeforeTax: 0,
+        };
+      }
+
+      const yearsHeld = yearIndex - purchase.yearIndex;
+      const rentGrowthFactor = Math.pow(1 + CPI_RATE, yearsHeld);
+
+      // Depreciation is a non-cash deduction. Capital works claimed come
+      // off the cost base; plant is written down separately.
+      const depreciation: DepreciationSchedule = {
+        buildingCost: plan.buildingCost,
+        buildingAgeYears: plan.buildingAgeYears,
+        plantAndEquipment: plan.plantAndEquipment,
+        plantEffectiveLifeYears: plan.plantEffectiveLifeYears,
+      };
+      const div40Depreciation = plantDeduction(depreciation, property.plantValue);
+      const div43Depreciation = capitalWorksDeduction(depreciation, yearsHeld);
+      property.plantValue -= div40Depreciation;
+      property.costBase -= div43Depreciation;
+
+      const costs = holdingCostsForYear({
+        inputs: {
+          managementFeeRate: plan.managementFeeRate,
+          vacancyWeeks: plan.vacancyWeeks,
+          councilStrataAnnual: plan.councilStrataAnnual,
+          insuranceAnnual: plan.insuranceAnnual,
+          maintenanceAnnual: plan.maintenanceAnnual,
+        },
+        grossRent: plan.rentAnnual * rentGrowthFactor,
+        landTax: propertyLandTax[k],
+        costGrowthFactor: rentGrowthFactor,
+        div40Depreciation,
+        div43Depreciation,
+      });
+
+      // Interest-only for the first N years, then P&I over the rest of the
+      // term. Repayments are monthly and reset each year (rate changes and
+      // the switch from interest-only re-amortise the loan).
+      const interestOnly = yearIndex < property.interestOnlyUntil;
+      const monthsRemaining = Math.max(
+        1,
+        property.loanTerm.months - (yearIndex - property.loanTerm.startYearIndex) * 12
+      );
+      const monthlyRepayment = scheduledRepayment(
+        property.loanBalance,
+        loanRate,
+        monthsRemaining,
+        interestOnly
+      );
 
-  // v1: assume interest-only IP loan
-  // repayments = interest only (captured in ipInterest)
-}
+      let interest = 0;
+      let principalRepaid = 0;
+      for (let month = 0; month < 12; month++) {
+        const period = amortisePeriod({
+          balance: property.loanBalance,
+          offset: 0,
+          annualRate: loanRate,
+          repayment: monthlyRepayment,
+          days: DAYS_PER_YEAR / 12,
+          periodsPerYear: 12,
+          method: "monthly",
+        });
+        interest += period.interest;
+        principalRepaid += period.principal;
+        property.loanBalance = period.closingBalance;
+      }
+
+      // LMI is a borrowing cost, written off over 5 years
+      const borrowingCostsDeducted =
+        yearsHeld < BORROWING_COST_DEDUCTION_YEARS
+          ? purchase.costs.lmi / BORROWING_COST_DEDUCTION_YEARS
+          : 0;
+
+      ipCosts = addHoldingCosts(ipCosts, costs);
+      ipInterest += interest;
+      ipPrincipalRepaid += principalRepaid;
+      ipBorrowingCostsDeducted += borrowingCostsDeducted;
+
+      return {
+        label: plan.label,
+        held: true,
+        value: property.value,
+        loanBalance: property.loanBalance,
+        loanRate,
+        rentCollected: costs.rentCollected,
+        cashExpenses: costs.cashExpenses,
+        interest,
+        principalRepaid,
+        netBeforeTax:
+          costs.rentCollected -
+          costs.cashExpenses -
+          interest -
+          borrowingCostsDeducted -
+          div40Depreciation -
+          div43Depreciation,
+      };
+    });
 
+    const ipRent = ipCosts.rentCollected;
+    const ipExpenses = ipCosts.cashExpenses;
+    let ipValue = propertyYears.reduce((sum, p) => sum + p.value, 0);
+    let ipLoanBalance = propertyYears.reduce((sum, p) => sum + p.loanBalance, 0);
+    const ipLoanRate =
+      ipLoanBalance > 0
+        ? propertyYears.reduce((sum, p) => sum + p.loanRate * p.loanBalance, 0) /
+          ipLoanBalance
+        : 0;
 
     // ─────────────────────────────────────────
+    // 3.6 Debt recycling & portfolio (Tip 6)
+    // Every dollar paid off the non-deductible home loan is redrawn on
+    // the deductible split and invested, so total debt stays the same
+    // while more of it becomes tax deductible.
     // ─────────────────────────────────────────
-// 3.6 Debt recycling & portfolio (Tip 6)
-// ─────────────────────────────────────────
-let investIncome = 0;
-let debtRecyclingInterest = 0;
-let investContributions = 0;
-
-// Only start recycling AFTER the IP has been purchased
-if (hasPurchasedIP && homeLoanBalance > 0) {
-  const minAnnualRepay = baseMinRepaymentMonthly * 13;
-  const additionalRepayments = Math.max(
-    0,
-    annualHomeLoanRepayments - minAnnualRepay
-  );
-
-  // First-year kick-off amount (user input)
-  if (purchasedIPThisYear && tips.tip6_recyclePerYear > 0) {
-    investContributions += Math.min(tips.tip6_recyclePerYear, homeLoanBalance);
-  }
+    let investIncome = 0;
+    let frankingCredits = 0;
+    let debtRecyclingInterest = 0;
+    let investContributions = 0;
+    const deductibleOpening = investmentLoanBalance;
+    let fromExtraRepayments = 0;
+    let fromOffset = 0;
+
+    // Lump sums go onto the variable split only (recycling never breaks
+    // a fixed split); returns the amount actually paid down
+    const payDownVariableSplit = (amount: number): number => {
+      const variableBalance = loanSplits
+        .filter((split) => !split.isFixed)
+        .reduce((sum, split) => sum + split.balance, 0);
+      const paid = Math.min(Math.max(0, amount), variableBalance);
+      if (paid > 0) {
+        loanSplits = repayLoanSplits(loanSplits, paid, rateShift).splits;
+        homeLoanBalance = totalSplitBalance(loanSplits);
+      }
+      return paid;
+    };
+    // Redraw on the deductible split and invest as a new parcel
+    const redrawAndInvest = (amount: number) => {
+      if (amount <= 0) return;
+      investmentLoanBalance += amount;
+      investContributions += amount;
+      portfolioParcels.push({
+        costBase: amount,
+        value: amount,
+        acquiredYearIndex: yearIndex,
+      });
+    };
+
+    // Only start recycling AFTER the IP has been purchased
+    // (or straight away when the IP strategy is switched off), and stop
+    // for good at the exit
+    const canStartRecycling =
+      !exitReached &&
+      (properties.length > 0 ? properties.some((p) => p.purchase !== undefined) : true);
+    if (tips.tip6_enabled && canStartRecycling && recyclingStartYearIndex === null) {
+      recyclingStartYearIndex = yearIndex;
+    }
 
-  // Ongoing recycling equals the annual repayments above the minimum
-  if (additionalRepayments > 0) {
-    const availableHeadroom = Math.max(0, homeLoanBalance - investContributions);
-    investContributions += Math.min(additionalRepayments, availableHeadroom);
-  }
+    if (recyclingStartYearIndex !== null && !exitReached && homeLoanOpening > 0.01) {
+      // Ongoing recycling: the repayments above the minimum have already
+      // come off the home loan, so they're redrawn as they stand
+      fromExtraRepayments = Math.min(
+        Math.max(0, annualHomeLoanRepayments - minAnnualRepay),
+        Math.max(0, homeLoanOpening - homeLoanBalance)
+      );
 
-  investmentLoanBalance += investContributions;
-  // The recycled amount is invested
-  investPortfolioValue += investContributions;
-}
+      // First-year kick-off: spare offset cash pays the home loan down,
+      // then the same amount is redrawn
+      if (yearIndex === recyclingStartYearIndex && tips.tip6_recyclePerYear > 0) {
+        const spareOffset = Math.max(0, offsetBalance - base.emergencyFundTarget);
+        fromOffset = payDownVariableSplit(
+          Math.min(tips.tip6_recyclePerYear, spareOffset)
+        );
+        offsetBalance -= fromOffset;
+      }
+
+      redrawAndInvest(fromExtraRepayments + fromOffset);
+    }
 
-// Investment returns
-if (investPortfolioValue > 0) {
-  const dividend = investPortfolioValue * tips.tip6_dividendYield;
-  const capitalGrowth =
-    investPortfolioValue * (tips.tip6_investReturn - tips.tip6_dividendYield);
+    // Investment returns: growth on every parcel. Dividends are paid out
+    // in cash (they're recycled through the home loan in 3.9).
+    if (portfolioParcels.length > 0) {
+      const portfolioValueBefore = portfolioParcels.reduce(
+        (sum, parcel) => sum + parcel.value,
+        0
+      );
+      const growthRate = investReturn - tips.tip6_dividendYield;
 
-  investIncome = dividend;
-  investPortfolioValue += dividend + capitalGrowth;
-}
+      for (const parcel of portfolioParcels) {
+        parcel.value *= 1 + growthRate;
+      }
 
-if (investmentLoanBalance > 0 && tips.tip6_investReturn > 0) {
-  // For now, assume same loan rate as home loan for recycled debt
-  debtRecyclingInterest = investmentLoanBalance * base.homeLoanRate;
-}
+      investIncome = portfolioValueBefore * tips.tip6_dividendYield;
+      frankingCredits = frankingCredit(
+        investIncome,
+        tips.tip6_frankingRate,
+        tips.tip6_companyTaxRate
+      );
+    }
 
+    // Interest on the recycled split at its own rate, paid from cashflow
+    debtRecyclingInterest = investmentLoanBalance * recycledLoanRate;
 
     // ─────────────────────────────────────────
-    // 3.7 Tax effects (very simplified v1)
+    // 3.7 Tax effects
+    // Each earner's tax is worked out on their salary alone and again
+    // with their share of the IP and investment income/losses added, so
+    // negative gearing moves them across brackets the way the ATO would.
     // ─────────────────────────────────────────
-    // Negative gearing on IP:
-    const ipNetBeforeTax = ipRent - ipExpenses - ipInterest;
-    let taxEffectIP = 0;
-    if (ipNetBeforeTax < 0) {
-      taxEffectIP = -ipNetBeforeTax * base.marginalTaxRate; // tax benefit
-    } else if (ipNetBeforeTax > 0) {
-      taxEffectIP = -ipNetBeforeTax * base.marginalTaxRate; // extra tax
-    }
-
-    // Investment income + interest on recycled debt
-    const investNetBeforeTax = investIncome - debtRecyclingInterest;
-    let taxEffectInvest = 0;
-    if (investNetBeforeTax < 0) {
-      taxEffectInvest = -investNetBeforeTax * base.marginalTaxRate;
-    } else if (investNetBeforeTax > 0) {
-      taxEffectInvest = -investNetBeforeTax * base.marginalTaxRate;
-    }
+    // Each property's result is split in its own ownership ratio
+    const ipNetByEarner = base.earners.map((_, i) =>
+      propertyYears.reduce(
+        (sum, p, k) => sum + p.netBeforeTax * properties[k].shares[i],
+        0
+      )
+    );
+    // Dividends are grossed up by their franking credits
+    const investNetBeforeTax =
+      investIncome + frankingCredits - debtRecyclingInterest;
+
+    const earnerTaxes = base.earners.map((earner, i) => {
+      const salaryTax = calculateIncomeTax(salariesThisYear[i], taxTable);
+      const fullTax = calculateIncomeTax(
+        salariesThisYear[i] +
+          ipNetByEarner[i] +
+          investNetBeforeTax * portfolioShares[i],
+        taxTable
+      );
+      // Franking credits are a refundable offset: any excess over the
+      // tax payable comes back as a refund
+      const earnerFranking = frankingCredits * portfolioShares[i];
+      const netTax = fullTax.totalTax - earnerFranking;
+      return { label: earner.label, salaryTax, fullTax, earnerFranking, netTax };
+    });
+    const salaryTaxTotal = earnerTaxes.reduce(
+      (sum, e) => sum + e.salaryTax.totalTax,
+      0
+    );
+    const householdTaxTotal = earnerTaxes.reduce((sum, e) => sum + e.netTax, 0);
 
-    const taxEffectNet = taxEffectIP + taxEffectInvest;
+    const netIncome = salaryThisYear - salaryTaxTotal;
+    // Positive = tax benefit (refund), negative = extra tax
+    const taxEffectNet = salaryTaxTotal - householdTaxTotal;
 
     // ─────────────────────────────────────────
     // 3.8 Cashflow summary
     // ─────────────────────────────────────────
-    const totalIncome = netIncome + ipRent + investIncome + Math.max(0, taxEffectNet);
+    const totalIncome =
+      netIncome +
+      ipRent +
+      investIncome +
+      oneOffInflows +
+      Math.max(0, taxEffectNet);
     const totalExpenses =
       livingExpenses +
+      oneOffOutflows +
       annualHomeLoanRepayments +
       ipExpenses +
       ipInterest +
+      ipPrincipalRepaid +
+      debtRecyclingInterest +
+      refinanceCosts + // a net cashback reduces expenses
       Math.max(0, -taxEffectNet); // extra tax if taxEffectNet is negative
 
-    const surplusCashflow = totalIncome - totalExpenses;
+    // Dividends and tax refunds are recycled rather than kept as cash
+    const recyclingActive =
+      recyclingStartYearIndex !== null && !exitReached && homeLoanBalance > 0;
+    const fromDividends = recyclingActive ? investIncome : 0;
+    const fromTaxRefunds = recyclingActive ? Math.max(0, taxEffectNet) : 0;
+    const debtRecyclingPaydowns = fromDividends + fromTaxRefunds;
+
+    const surplusCashflow = totalIncome - totalExpenses - debtRecyclingPaydowns;
+
+    // ─────────────────────────────────────────
+    // 3.9 Cash allocation (Tips 2 + 6)
+    // Dividends and tax refunds go onto the home loan and are redrawn to
+    // invest. Surplus is swept into the offset at year end; a shortfall
+    // draws the offset down, but never below the emergency fund target.
+    // ─────────────────────────────────────────
+    const recycledPaydown = payDownVariableSplit(debtRecyclingPaydowns);
+    redrawAndInvest(recycledPaydown);
+    // Whatever the variable split couldn't take stays as cash
+    offsetBalance += debtRecyclingPaydowns - recycledPaydown;
+    investPortfolioValue = portfolioParcels.reduce(
+      (sum, parcel) => sum + parcel.value,
+      0
+    );
+
+    const debtRecycling: DebtRecyclingLedger = {
+      nonDeductibleOpening: homeLoanOpening,
+      deductibleOpening,
+      fromExtraRepayments,
+      fromOffset,
+      fromDividends: Math.min(fromDividends, recycledPaydown),
+      fromTaxRefunds: Math.max(0, recycledPaydown - fromDividends),
+      redrawn: investContributions,
+      deductibleInterest: debtRecyclingInterest,
+      nonDeductibleClosing: homeLoanBalance,
+      deductibleClosing: investmentLoanBalance,
+    };
+
+    // With Tip 2 off the offset just holds its opening balance.
+    let offsetSweep = tips.tip2_enabled ? surplusCashflow : 0;
+    if (tips.tip2_enabled && surplusCashflow < 0) {
+      const drawableOffset = Math.max(0, offsetBalance - base.emergencyFundTarget);
+      offsetSweep = -Math.min(drawableOffset, -surplusCashflow);
+    }
+    offsetBalance += offsetSweep;
+    const unfundedShortfall = Math.max(0, offsetSweep - surplusCashflow);
+
+    // ─────────────────────────────────────────
+    // 3.10 "If we sold the IP + portfolio, could we clear the home loan?"
+    // CGT on each asset's gain over its cost base, with the 50% discount
+    // for anything held 12 months+, split between the owners and taxed at
+    // each owner's marginal rates this year (losses stay with their owner).
+    // Offset cash above the emergency fund counts towards the payoff too.
+    // ─────────────────────────────────────────
+    const ipSellingCosts = ipValue * IP_SELLING_COST_RATE;
+    const heldProperties = properties.filter(
+      (property, k) => propertyYears[k].held && property.purchase !== undefined
+    );
+    const ipCostBase = heldProperties.reduce((sum, p) => sum + p.costBase, 0);
+    const portfolioCostBase = portfolioParcels.reduce(
+      (sum, parcel) => sum + parcel.costBase,
+      0
+    );
+
+    let netCapitalGain = 0;
+    let cgtPayable = 0;
+    earnerTaxes.forEach((earnerTax, i) => {
+      const cgtParcels: CgtParcel[] = portfolioParcels.map((parcel) => ({
+        costBase: parcel.costBase * portfolioShares[i],
+        proceeds: parcel.value * portfolioShares[i],
+        acquiredYearIndex: parcel.acquiredYearIndex,
+      }));
+      for (const property of heldProperties) {
+        cgtParcels.push({
+          costBase: property.costBase * property.shares[i],
+          proceeds: property.value * (1 - IP_SELLING_COST_RATE) * property.shares[i],
+          acquiredYearIndex: property.purchase?.yearIndex ?? yearIndex,
+        });
+      }
+
+      const capitalGains = assessCapitalGains(cgtParcels, yearIndex);
+      netCapitalGain += capitalGains.netCapitalGain;
+      cgtPayable += capitalGainsTax(
+        capitalGains.netCapitalGain,
+        earnerTax.fullTax.taxableIncome,
+        taxTable
+      );
+    });
+
+    const offsetAvailable = Math.max(0, offsetBalance - base.emergencyFundTarget);
+    const homeLoanBreakCosts = totalBreakCosts(loanSplits, rateShift);
+
+    // Cash from the sale after selling costs, loan payouts and CGT
+    const saleCash =
+      ipValue -
+      ipSellingCosts -
+      ipLoanBalance +
+      investPortfolioValue -
+      investmentLoanBalance -
+      cgtPayable;
+    const totalAvailableIfSold = Math.max(0, saleCash + offsetAvailable);
+
+    const saleBreakdown: SaleBreakdown = {
+      ipSalePrice: ipValue,
+      ipSellingCosts,
+      ipCostBase,
+      ipCapitalGain: ipValue > 0 ? ipValue - ipSellingCosts - ipCostBase : 0,
+      ipLoanRepaid: ipLoanBalance,
+
+      portfolioValue: investPortfolioValue,
+      investmentLoanRepaid: investmentLoanBalance,
+      portfolioCostBase,
+      portfolioCapitalGain: investPortfolioValue - portfolioCostBase,
+
+      netCapitalGain,
+      cgtPayable,
+
+      offsetAvailable,
+      totalAvailable: totalAvailableIfSold,
+      homeLoanBreakCosts,
+    };
+
+    // Can we wipe the home loan (incl. breaking any fixed splits)
+    // using IP + portfolio + spare offset cash?
+    const couldClearHomeLoan =
+      homeLoanBalance > 0 &&
+      totalAvailableIfSold >= homeLoanBalance + homeLoanBreakCosts;
 
     // ─────────────────────────────────────────
-    // 3.9 Assets & liabilities snapshot
+    // 3.11 Execute the exit (optional)
+    // Sell the IP + portfolio, pay selling costs and CGT, repay the IP and
+    // recycled loans, then put the proceeds and spare offset cash onto the
+    // home loan. Anything left over stays in the offset. "atDebtFree" waits
+    // for a sale that nets cash after selling costs and CGT, rather than
+    // selling at a loss because the offset alone could clear the loan.
+    // ─────────────────────────────────────────
+    const hasAssetsToSell = ipValue > 0 || investPortfolioValue > 0;
+    const exitTriggered =
+      exit === undefined &&
+      hasAssetsToSell &&
+      ((assumptions.exitStrategy === "atDebtFree" && couldClearHomeLoan && saleCash >= 0) ||
+        (assumptions.exitStrategy === "atYear" &&
+          yearIndex === assumptions.exitYearIndex));
+
+    if (exitTriggered) {
+      // Sale proceeds go on first, then spare offset cash.
+      // Paying off a fixed split early also pays its break costs.
+      const payoffAmount = homeLoanBalance + homeLoanBreakCosts;
+      const fromSale = Math.max(0, Math.min(saleCash, payoffAmount));
+      const offsetUsed = Math.min(offsetAvailable, payoffAmount - fromSale);
+      const repayment = repayLoanSplits(loanSplits, fromSale + offsetUsed, rateShift);
+      const homeLoanRepaid = repayment.principalRepaid;
+
+      loanSplits = repayment.splits;
+      offsetBalance += saleCash - fromSale - offsetUsed;
+      if (offsetBalance < 0) {
+        // Selling at a loss: any shortfall is added to the (variable) home loan
+        loanSplits[0] = {
+          ...loanSplits[0],
+          balance: loanSplits[0].balance - offsetBalance,
+        };
+        offsetBalance = 0;
+      }
+      homeLoanBalance = totalSplitBalance(loanSplits);
+
+      ipValue = 0;
+      ipLoanBalance = 0;
+      for (const property of properties) {
+        property.value = 0;
+        property.loanBalance = 0;
+      }
+      portfolioParcels.length = 0;
+      investPortfolioValue = 0;
+      investmentLoanBalance = 0;
+
+      exit = {
+        yearIndex,
+        sale: saleBreakdown,
+        homeLoanRepaid,
+        breakCostsPaid: repayment.breakCostsPaid,
+        offsetUsed,
+        cashRetained: Math.max(0, saleCash - fromSale),
+        clearedHomeLoan: homeLoanBalance <= 0.01,
+      };
+    }
+
+    // ─────────────────────────────────────────
+    // 3.12 Assets & liabilities snapshot
     // ─────────────────────────────────────────
     const totalAssets =
       homeValue +
@@ -366,65 +1511,83 @@ if (investmentLoanBalance > 0 && tips.tip6_investReturn > 0) {
 
     const netWorth = totalAssets - totalLiabilities;
 
-    // ─────────────────────────────────────────
-    // 3.10 "If we sold everything, could we clear the home loan?"
-    // (simple CGT on the portfolio only)
-// ─────────────────────────────────────────
-    // ─────────────────────────────────────────
-// 3.10 "If we sold the IP + portfolio, could we clear the home loan?"
-// ─────────────────────────────────────────
-
-// 1) Portfolio proceeds after CGT (very simple effective rate)
-const portfolioAfterCGT =
-  investPortfolioValue > 0
-    ? investPortfolioValue * (1 - assumptions.effectiveCgtRate)
-    : 0;
-
-// 2) Investment property net sale proceeds
-//    (sale price minus selling costs, then repay IP loan)
-const ipSellingCostRate = 0.03; // you can lift this into Assumptions later
-
-const ipNetSaleProceeds =
-  ipValue > 0
-    ? Math.max(0, ipValue * (1 - ipSellingCostRate) - ipLoanBalance)
-    : 0;
-
-// 3) Total cash available from selling IP + portfolio
-const totalAvailableIfSold = ipNetSaleProceeds + portfolioAfterCGT;
-
-// 4) Can we wipe the home loan using just IP + portfolio?
-const couldClearHomeLoan =
-  homeLoanBalance > 0 && totalAvailableIfSold >= homeLoanBalance;
-
-
-    if (couldClearHomeLoan && debtFreeYearIndex === undefined) {
-      debtFreeYearIndex = yearIndex;
+    if (debtFreeYearIndex === undefined) {
+      if (couldClearHomeLoan) {
+        debtFreeYearIndex = yearIndex;
+        debtFreeMonths = (yearIndex + 1) * 12;
+      } else if (paidOffAfterDays !== undefined) {
+        // Repaid outright part-way through the year
+        debtFreeYearIndex = yearIndex;
+        debtFreeMonths =
+          yearIndex * 12 + Math.ceil((paidOffAfterDays / DAYS_PER_YEAR) * 12);
+      } else if (
+        (exitTriggered && exit?.clearedHomeLoan) ||
+        (homeLoanOpening > 0.01 && homeLoanBalance <= 0.01)
+      ) {
+        // Cleared by a sale (or recycled lump sums) in a year the test
+        // alone didn't pass
+        debtFreeYearIndex = yearIndex;
+        debtFreeMonths = (yearIndex + 1) * 12;
+      }
     }
 
     // ─────────────────────────────────────────
-    // 3.11 Push year snapshot
+    // 3.13 Push year snapshot
     // ─────────────────────────────────────────
     years.push({
       yearIndex,
+      financialYear,
 
+      grossSalary: salaryThisYear,
       netIncome,
       livingExpenses,
+      oneOffInflows,
+      oneOffOutflows,
 
+      homeLoanRate,
+      ipLoanRate,
+      recycledLoanRate,
       homeLoanInterest,
       homeLoanRepayments: annualHomeLoanRepayments,
-      minRepaymentMonthly: baseMinRepaymentMonthly,
+      minRepaymentMonthly,
+      minRepaymentsAnnual: minAnnualRepay,
 
       ipRent,
       ipExpenses,
+      ipCosts,
       ipInterest,
-
-  investIncome,
-  investContributions,
-  taxEffectNet,
+      ipPrincipalRepaid,
+      ipBorrowingCostsDeducted,
+      refinanceCosts,
+
+      investIncome,
+      frankingCredits,
+      investContributions,
+      debtRecyclingInterest,
+      debtRecyclingPaydowns,
+      debtRecycling,
+      taxEffectNet,
+
+      taxableIncome: earnerTaxes.reduce(
+        (sum, e) => sum + e.fullTax.taxableIncome,
+        0
+      ),
+      incomeTax: householdTaxTotal,
+      marginalTaxRate: Math.max(0, ...earnerTaxes.map((e) => e.fullTax.marginalRate)),
+      earners: earnerTaxes.map((e, i) => ({
+        label: e.label,
+        grossSalary: salariesThisYear[i],
+        taxableIncome: e.fullTax.taxableIncome,
+        frankingCredits: e.earnerFranking,
+        incomeTax: e.netTax,
+        marginalTaxRate: e.fullTax.marginalRate,
+      })),
 
       totalIncome,
       totalExpenses,
       surplusCashflow,
+      offsetSweep,
+      unfundedShortfall,
 
       homeValue,
       ipValue,
@@ -432,6 +1595,7 @@ const couldClearHomeLoan =
       offsetBalance,
 
       homeLoanBalance,
+      homeLoanSplits: loanSplits,
       ipLoanBalance,
       investmentLoanBalance,
 
@@ -441,16 +1605,316 @@ const couldClearHomeLoan =
 
       couldClearHomeLoan,
       totalAvailableIfSold,
+      saleBreakdown,
+      exitExecuted: exitTriggered,
+
+      properties: exitTriggered
+        ? propertyYears.map((p) => ({ ...p, held: false, value: 0, loanBalance: 0 }))
+        : propertyYears,
     });
 
-    // Optional early stop: once home loan is actually zero, we can break
-    if (homeLoanBalance <= 0.01) {
+    // Optional early stop: once home loan is actually zero, we can break.
+    // With an exit strategy we keep projecting life after the plan.
+    if (
+      homeLoanBalance <= 0.01 &&
+      assumptions.exitStrategy === "none" &&
+      !assumptions.projectFullHorizon
+    ) {
       break;
     }
   }
 
   return {
     years,
+    periods,
+    ipPurchases: properties.map((property) => ({
+      label: property.plan.label,
+      purchase: property.purchase,
+      check: property.check,
+    })),
     debtFreeYearIndex,
+    debtFreeMonths,
+    exit,
+    warnings,
+  };
+}
+
+// ─────────────────────────────────────────────
+// 4. Baseline ("no strategies") comparison
+// ─────────────────────────────────────────────
+
+// Same household with every strategy switched off: minimum monthly
+// repayments only, no offset sweep, no IP and no debt recycling.
+export function runBaselineSimulation(
+  base: BaseInputs,
+  tips: TipInputs,
+  customAssumptions?: Partial<Assumptions>
+): SimulationResult {
+  return runDebtProSimulation(
+    base,
+    withStrategiesEnabled(tips, () => false),
+    customAssumptions
+  );
+}
+
+// Home loan interest paid up to (and including) the debt-free year
+function homeLoanInterestToDebtFree(result: SimulationResult): number {
+  const lastYearIndex = result.debtFreeYearIndex ?? result.years.length - 1;
+  return result.years
+    .filter((y) => y.yearIndex <= lastYearIndex)
+    .reduce((sum, y) => sum + y.homeLoanInterest, 0);
+}
+
+export function compareWithBaseline(
+  strategy: SimulationResult,
+  baseline: SimulationResult
+): BaselineComparison {
+  const strategyInterest = homeLoanInterestToDebtFree(strategy);
+  const baselineInterest = homeLoanInterestToDebtFree(baseline);
+
+  const baselineClearsInProjection = baseline.debtFreeMonths !== undefined;
+  // If the baseline never clears, measure against the end of its projection
+  const baselineMonths =
+    baseline.debtFreeMonths ?? baseline.years.length * 12;
+  const monthsSaved =
+    strategy.debtFreeMonths !== undefined
+      ? Math.max(0, baselineMonths - strategy.debtFreeMonths)
+      : undefined;
+
+  const netWorthYearIndex = Math.min(
+    strategy.debtFreeYearIndex ?? strategy.years.length - 1,
+    baseline.years.length - 1
+  );
+  const strategyNetWorth = strategy.years[netWorthYearIndex]?.netWorth ?? 0;
+  const baselineNetWorth = baseline.years[netWorthYearIndex]?.netWorth ?? 0;
+
+  return {
+    strategyInterest,
+    baselineInterest,
+    interestSaved: baselineInterest - strategyInterest,
+
+    strategyDebtFreeMonths: strategy.debtFreeMonths,
+    baselineDebtFreeMonths: baseline.debtFreeMonths,
+    monthsSaved,
+    baselineClearsInProjection,
+
+    netWorthYearIndex,
+    netWorthDifference: strategyNetWorth - baselineNetWorth,
   };
 }
+
+// ─────────────────────────────────────────────
+// 5. Strategy waterfall
+// ─────────────────────────────────────────────
+
+// Switch the enabled strategies on one at a time (1 → 6) and attribute
+// the interest and time saved at each step to the strategy just added.
+export function runStrategyWaterfall(
+  base: BaseInputs,
+  tips: TipInputs,
+  customAssumptions?: Partial<Assumptions>
+): StrategyContribution[] {
+  const contributions: StrategyContribution[] = [];
+  const included = new Set<StrategyId>();
+
+  let previous = runBaselineSimulation(base, tips, customAssumptions);
+
+  for (const strategyId of STRATEGY_IDS) {
+    const enabled = isStrategyEnabled(tips, strategyId);
+    if (!enabled) {
+      contributions.push({
+        strategyId,
+        enabled,
+        interestSaved: 0,
+        monthsSaved: 0,
+        debtFreeMonths: previous.debtFreeMonths,
+      });
+      continue;
+    }
+
+    included.add(strategyId);
+    const current = runDebtProSimulation(
+      base,
+      withStrategiesEnabled(tips, (id) => included.has(id)),
+      customAssumptions
+    );
+    const step = compareWithBaseline(current, previous);
+
+    contributions.push({
+      strategyId,
+      enabled,
+      interestSaved: step.interestSaved,
+      monthsSaved:
+        (previous.debtFreeMonths ?? previous.years.length * 12) -
+        (current.debtFreeMonths ?? current.years.length * 12),
+      debtFreeMonths: current.debtFreeMonths,
+    });
+
+    previous = current;
+  }
+
+  return contributions;
+}
+
+// ─────────────────────────────────────────────
+// 6. Interest rate stress test
+// ─────────────────────────────────────────────
+
+// Re-run the plan with rates permanently higher from year 1, on top of
+// any rate schedule already entered (minimums re-amortise as lenders do).
+export function runRateStressTest(
+  base: BaseInputs,
+  tips: TipInputs,
+  customAssumptions?: Partial<Assumptions>,
+  rateShifts: number[] = [0.01, 0.02, 0.03]
+): RateStressResult[] {
+  const schedule = customAssumptions?.rateSchedule ?? EMPTY_RATE_SCHEDULE;
+  const unstressed = runDebtProSimulation(base, tips, customAssumptions);
+
+  return rateShifts.map((rateShift) => {
+    const stressed = runDebtProSimulation(base, tips, {
+      ...customAssumptions,
+      rateSchedule: {
+        ...schedule,
+        shocks: [
+          ...schedule.shocks,
+          { startYearIndex: 0, years: Infinity, shift: rateShift },
+        ],
+      },
+    });
+
+    let worstDeficit = 0;
+    let worstDeficitYearIndex: number | undefined;
+    let worstShortfall = 0;
+    let worstShortfallYearIndex: number | undefined;
+    stressed.years.forEach((y) => {
+      if (-y.surplusCashflow > worstDeficit) {
+        worstDeficit = -y.surplusCashflow;
+        worstDeficitYearIndex = y.yearIndex;
+      }
+      if (y.unfundedShortfall > worstShortfall) {
+        worstShortfall = y.unfundedShortfall;
+        worstShortfallYearIndex = y.yearIndex;
+      }
+    });
+
+    return {
+      rateShift,
+      worstDeficit,
+      worstDeficitYearIndex,
+      worstShortfall,
+      worstShortfallYearIndex,
+      debtFreeMonths: stressed.debtFreeMonths,
+      debtFreeShiftMonths:
+        stressed.debtFreeMonths !== undefined
+          ? stressed.debtFreeMonths -
+            (unstressed.debtFreeMonths ?? unstressed.years.length * 12)
+          : undefined,
+    };
+  });
+}
+
+// ─────────────────────────────────────────────
+// 7. Refinance analysis
+// ─────────────────────────────────────────────
+
+// Compare the plan with each refinance event against the same plan
+// without it (all other events kept).
+export function runRefinanceAnalysis(
+  base: BaseInputs,
+  tips: TipInputs,
+  customAssumptions?: Partial<Assumptions>
+): RefinanceAnalysis[] {
+  const projection = { ...customAssumptions, projectFullHorizon: true };
+  const withRefinance = runDebtProSimulation(base, tips, projection);
+
+  return base.refinanceEvents.map((event, eventIndex) => {
+    const stayPut = runDebtProSimulation(
+      {
+        ...base,
+        refinanceEvents: base.refinanceEvents.filter((_, i) => i !== eventIndex),
+      },
+      tips,
+      projection
+    );
+
+    const loanInterest = (y: YearState) => y.homeLoanInterest + y.ipInterest;
+    const switchingCosts =
+      (withRefinance.years[event.yearIndex]?.refinanceCosts ?? 0) -
+      (stayPut.years[event.yearIndex]?.refinanceCosts ?? 0);
+
+    let interestSaved = 0;
+    let breakEvenYearIndex: number | undefined;
+    withRefinance.years.forEach((year) => {
+      const stayPutYear = stayPut.years[year.yearIndex];
+      if (year.yearIndex < event.yearIndex || !stayPutYear) return;
+
+      interestSaved += loanInterest(stayPutYear) - loanInterest(year);
+      if (breakEvenYearIndex === undefined && interestSaved >= switchingCosts) {
+        breakEvenYearIndex = year.yearIndex;
+      }
+    });
+
+    return {
+      eventIndex,
+      switchingCosts,
+      interestSaved,
+      breakEvenYearIndex,
+      debtFreeShiftMonths:
+        withRefinance.debtFreeMonths !== undefined &&
+        stayPut.debtFreeMonths !== undefined
+          ? withRefinance.debtFreeMonths - stayPut.debtFreeMonths
+          : undefined,
+    };
+  });
+}
+
+// ─────────────────────────────────────────────
+// 8. Ownership comparison
+// ─────────────────────────────────────────────
+
+// Re-run the plan with the IP and portfolio held in each combination of
+// names (first earner's share), compared at the current plan's debt-free
+// year so every structure is measured over the same period.
+export function runOwnershipComparison(
+  base: BaseInputs,
+  tips: TipInputs,
+  customAssumptions?: Partial<Assumptions>,
+  shares: number[] = [1, 0.5, 0]
+): OwnershipComparison[] {
+  if (base.earners.length < 2) return [];
+
+  const projection = { ...customAssumptions, projectFullHorizon: true };
+  const current = runDebtProSimulation(base, tips, customAssumptions);
+  const comparisonYearIndex = current.debtFreeYearIndex ?? current.years.length - 1;
+
+  return shares.flatMap((ipShare) =>
+    shares.map((portfolioShare) => {
+      const result = runDebtProSimulation(
+        base,
+        {
+          ...tips,
+          tip5_properties: tips.tip5_properties.map((property) => ({
+            ...property,
+            ownershipShare: ipShare,
+          })),
+          tip6_ownershipShare: portfolioShare,
+        },
+        projection
+      );
+      const yearIndex = Math.min(comparisonYearIndex, result.years.length - 1);
+      const year = result.years[yearIndex];
+
+      return {
+        ipShare,
+        portfolioShare,
+        incomeTaxPaid: result.years
+          .filter((y) => y.yearIndex <= yearIndex)
+          .reduce((sum, y) => sum + y.incomeTax, 0),
+        cgtPayable: year?.saleBreakdown.cgtPayable ?? 0,
+        debtFreeMonths: result.debtFreeMonths,
+        netWorth: year?.netWorth ?? 0,
+      };
+    })
+  );
+}
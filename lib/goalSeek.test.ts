@@ -0,0 +1,91 @@
+// lib/goalSeek.test.ts
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  runDebtProSimulation,
+  type BaseInputs,
+  type SimulationResult,
+  type TipInputs,
+} from "./debtProEngine";
+import { defaultGoalSeekSettings, runGoalSeek } from "./goalSeek";
+
+vi.mock("./debtProEngine", () => ({ runDebtProSimulation: vi.fn() }));
+
+const base = {} as BaseInputs;
+const tips = { tip1_enabled: false, tip1_extraSavingsPerMonth: 0 } as TipInputs;
+
+// Stand-in projection: the debt-free point and worst unfunded shortfall
+// for each extra monthly repayment
+function stubProjection(
+  outcome: (extra: number) => { debtFreeMonths?: number; shortfall?: number }
+) {
+  vi.mocked(runDebtProSimulation).mockImplementation((_base, planTips) => {
+    const { debtFreeMonths, shortfall = 0 } = outcome(planTips.tip1_extraSavingsPerMonth);
+    return {
+      debtFreeMonths,
+      years: [{ yearIndex: 0, unfundedShortfall: shortfall }],
+    } as unknown as SimulationResult;
+  });
+}
+
+// Debt-free within 7 years from $20 a month
+const settings = { ...defaultGoalSeekSettings("extraRepayment", 7), max: 20_000 };
+
+describe("runGoalSeek", () => {
+  beforeEach(() => {
+    vi.mocked(runDebtProSimulation).mockReset();
+  });
+
+  it("finds the smallest amount on a smooth target, rounded up to the step", () => {
+    stubProjection((extra) => ({ debtFreeMonths: Math.ceil(120 - extra / 100) }));
+
+    const result = runGoalSeek(base, tips, undefined, settings);
+    expect(result.status).toBe("solved");
+    expect(result.value).toBe(3_600);
+    expect(result.nonMonotonic).toBe(false);
+  });
+
+  it("finds the first amount on a stepped target that misses again higher up", () => {
+    stubProjection((extra) => ({
+      debtFreeMonths: (extra >= 2_345 && extra < 9_000) || extra >= 15_000 ? 80 : 100,
+    }));
+
+    const result = runGoalSeek(base, tips, undefined, settings);
+    expect(result.status).toBe("solved");
+    expect(result.value).toBe(2_350);
+    expect(result.nonMonotonic).toBe(true);
+  });
+
+  it("skips amounts that leave a shortfall the offset can't cover", () => {
+    stubProjection((extra) => ({
+      debtFreeMonths: extra >= 1_000 ? 80 : 100,
+      shortfall: extra < 6_120 ? 5_000 : 0,
+    }));
+
+    const result = runGoalSeek(base, tips, undefined, settings);
+    expect(result.status).toBe("solved");
+    expect(result.value).toBe(6_120);
+    expect(result.worstShortfall).toBe(0);
+  });
+
+  it("reports no feasible value when every amount that reaches the target leaves a shortfall", () => {
+    stubProjection((extra) => ({
+      debtFreeMonths: extra >= 1_000 ? 80 : 100,
+      shortfall: extra >= 1_000 ? 5_000 : 0,
+    }));
+
+    const result = runGoalSeek(base, tips, undefined, settings);
+    expect(result.status).toBe("noFeasibleValue");
+    expect(result.value).toBe(1_000);
+    expect(result.worstShortfall).toBe(5_000);
+  });
+
+  it("reports the soonest debt-free amount when nothing reaches the target", () => {
+    stubProjection((extra) => ({ debtFreeMonths: extra === 10_000 ? 90 : 100 }));
+
+    const result = runGoalSeek(base, tips, undefined, settings);
+    expect(result.status).toBe("beyondBounds");
+    expect(result.value).toBe(10_000);
+    expect(result.debtFreeMonths).toBe(90);
+  });
+});
@@ -0,0 +1,257 @@
+// lib/goalSeek.ts
+
+import {
+  runDebtProSimulation,
+  type Assumptions,
+  type BaseInputs,
+  type InvestmentProperty,
+  type TipInputs,
+} from "./debtProEngine";
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// The input the solver is allowed to change
+export type GoalSeekVariable = "extraRepayment" | "ipPrice" | "recycleAmount";
+
+export type GoalSeekSettings = {
+  variable: GoalSeekVariable;
+  targetYears: number;   // debt-free within this many years
+  min: number;           // search bounds for the variable
+  max: number;
+  step: number;          // answer is rounded up to a multiple of this
+  propertyIndex: number; // which property's price, for "ipPrice"
+};
+
+// "solved"          – `value` is the smallest amount found that reaches the
+//                     target without a shortfall the offset can't cover
+// "beyondBounds"    – nothing in the range reaches the target
+// "noFeasibleValue" – some amounts reach it, but every one of them leaves a
+//                     shortfall the offset can't cover
+export type GoalSeekStatus = "solved" | "beyondBounds" | "noFeasibleValue";
+
+export type GoalSeekResult = {
+  status: GoalSeekStatus;
+  value: number;                  // the answer; otherwise the soonest debt-free value tried ("beyondBounds") or the smallest that reaches the target ("noFeasibleValue")
+  debtFreeMonths?: number;        // at `value`
+  worstShortfall: number;         // largest unfunded shortfall in any year at `value`
+  worstShortfallYearIndex?: number;
+  nonMonotonic: boolean;          // some larger amount tried misses the target again
+  simulations: number;
+};
+
+// ─────────────────────────────────────────────
+// 2. Defaults
+// ─────────────────────────────────────────────
+
+export const GOAL_SEEK_BOUNDS: Record<
+  GoalSeekVariable,
+  { min: number; max: number; step: number }
+> = {
+  extraRepayment: { min: 0, max: 20_000, step: 10 },  // per month
+  ipPrice: { min: 100_000, max: 3_000_000, step: 1_000 },
+  recycleAmount: { min: 0, max: 1_000_000, step: 1_000 },
+};
+
+// Grid points checked across the whole range before narrowing in, so a
+// target that is only met part-way through the range isn't missed
+const SCAN_POINTS = 16;
+
+export function defaultGoalSeekSettings(
+  variable: GoalSeekVariable = "extraRepayment",
+  targetYears = 7
+): GoalSeekSettings {
+  return { variable, targetYears, propertyIndex: 0, ...GOAL_SEEK_BOUNDS[variable] };
+}
+
+// ─────────────────────────────────────────────
+// 3. Applying a value
+// ─────────────────────────────────────────────
+
+// A property like this one at a different price: rent, land value and the
+// depreciable amounts scale with the price, the fixed running costs don't.
+function repriceProperty(property: InvestmentProperty, price: number): InvestmentProperty {
+  const scale = property.price > 0 ? price / property.price : 1;
+  return {
+    ...property,
+    price,
+    rentAnnual: property.rentAnnual * scale,
+    landValue: property.landValue * scale,
+    buildingCost: property.buildingCost * scale,
+    plantAndEquipment: property.plantAndEquipment * scale,
+  };
+}
+
+// The plan with the variable set to `value` (and its strategy switched on)
+export function withGoalSeekValue(
+  tips: TipInputs,
+  settings: Pick<GoalSeekSettings, "variable" | "propertyIndex">,
+  value: number
+): TipInputs {
+  switch (settings.variable) {
+    case "extraRepayment":
+      return { ...tips, tip1_enabled: true, tip1_extraSavingsPerMonth: value };
+    case "recycleAmount":
+      return { ...tips, tip6_enabled: true, tip6_recyclePerYear: value };
+    case "ipPrice":
+      return {
+        ...tips,
+        tip5_enabled: true,
+        tip5_properties: tips.tip5_properties.map((property, i) =>
+          i === settings.propertyIndex ? repriceProperty(property, value) : property
+        ),
+      };
+  }
+}
+
+// The variable's value in the plan as entered
+export function currentGoalSeekValue(
+  tips: TipInputs,
+  settings: Pick<GoalSeekSettings, "variable" | "propertyIndex">
+): number | undefined {
+  switch (settings.variable) {
+    case "extraRepayment":
+      return tips.tip1_enabled ? tips.tip1_extraSavingsPerMonth : 0;
+    case "recycleAmount":
+      return tips.tip6_enabled ? tips.tip6_recyclePerYear : 0;
+    case "ipPrice":
+      return tips.tip5_properties[settings.propertyIndex]?.price;
+  }
+}
+
+// ─────────────────────────────────────────────
+// 4. Solver
+// ─────────────────────────────────────────────
+
+type Trial = {
+  value: number;
+  debtFreeMonths?: number;
+  meetsTarget: boolean;
+  feasible: boolean; // meets the target and every year is funded
+  worstShortfall: number;
+  worstShortfallYearIndex?: number;
+};
+
+// Smallest value in [min, max] that gets the home loan cleared within the
+// target without a shortfall the offset can't cover. The target needn't
+// get easier as the value rises – stamp duty, LMI and land tax brackets or
+// the lender's cut-off can make a bigger amount miss again – so the whole
+// range is scanned first. The gap below the first scan point that reaches
+// the target is bisected; if the smallest amount that reaches it can't be
+// funded, the gap below the first fundable scan point is bisected instead.
+export function runGoalSeek(
+  base: BaseInputs,
+  tips: TipInputs,
+  customAssumptions: Partial<Assumptions> | undefined,
+  settings: GoalSeekSettings
+): GoalSeekResult {
+  const targetMonths = Math.max(0, settings.targetYears) * 12;
+  const step = Math.max(settings.step, Number.EPSILON);
+  const min = Math.max(0, settings.min);
+  const max = Math.max(min, settings.max);
+  let simulations = 0;
+
+  const trial = (value: number): Trial => {
+    simulations++;
+    const result = runDebtProSimulation(
+      base,
+      withGoalSeekValue(tips, settings, value),
+      customAssumptions
+    );
+
+    let worstShortfall = 0;
+    let worstShortfallYearIndex: number | undefined;
+    result.years.forEach((y) => {
+      if (y.unfundedShortfall > worstShortfall) {
+        worstShortfall = y.unfundedShortfall;
+        worstShortfallYearIndex = y.yearIndex;
+      }
+    });
+
+    const meetsTarget =
+      result.debtFreeMonths !== undefined && result.debtFreeMonths <= targetMonths;
+    return {
+      value,
+      debtFreeMonths: result.debtFreeMonths,
+      meetsTarget,
+      feasible: meetsTarget && worstShortfall <= 0.5,
+      worstShortfall,
+      worstShortfallYearIndex,
+    };
+  };
+
+  const answer = (
+    status: GoalSeekStatus,
+    t: Trial,
+    nonMonotonic: boolean
+  ): GoalSeekResult => ({
+    status,
+    value: t.value,
+    debtFreeMonths: t.debtFreeMonths,
+    worstShortfall: t.worstShortfall,
+    worstShortfallYearIndex: t.worstShortfallYearIndex,
+    nonMonotonic,
+    simulations,
+  });
+
+  // Smallest value above `low` that passes `test`, to one step and on the
+  // step grid, given `high` passes
+  const narrow = (low: number, high: Trial, test: (t: Trial) => boolean): Trial => {
+    while (high.value - low > step) {
+      const mid = Math.ceil((low + high.value) / 2 / step) * step;
+      if (mid >= high.value) break;
+      const t = trial(mid);
+      if (test(t)) high = t;
+      else low = mid;
+    }
+
+    // Keep the answer on the step grid (never above a tested pass)
+    const rounded = Math.min(Math.ceil(high.value / step) * step, max);
+    if (rounded !== high.value) {
+      const t = trial(rounded);
+      if (test(t)) high = t;
+    }
+    return high;
+  };
+
+  // Coarse scan of the whole range
+  const scan: Trial[] = [];
+  for (let i = 0; i <= SCAN_POINTS; i++) {
+    scan.push(trial(min + ((max - min) * i) / SCAN_POINTS));
+    if (max === min) break;
+  }
+
+  const reach = scan.findIndex((t) => t.meetsTarget);
+  if (reach < 0) {
+    const soonest = scan.reduce((best, t) =>
+      (t.debtFreeMonths ?? Infinity) < (best.debtFreeMonths ?? Infinity) ? t : best
+    );
+    return answer("beyondBounds", soonest, false);
+  }
+
+  const lowest = narrow(
+    reach > 0 ? scan[reach - 1].value : scan[reach].value,
+    scan[reach],
+    (t) => t.meetsTarget
+  );
+  let hit: Trial | undefined = lowest.feasible ? lowest : undefined;
+  if (!hit) {
+    const funded = scan.findIndex((t, i) => i >= reach && t.feasible);
+    if (funded >= 0) {
+      hit = narrow(
+        funded > reach ? scan[funded - 1].value : lowest.value,
+        scan[funded],
+        (t) => t.feasible
+      );
+    }
+  }
+  if (!hit) return answer("noFeasibleValue", lowest, false);
+
+  const answerValue = hit.value;
+  return answer(
+    "solved",
+    hit,
+    scan.some((t) => t.value > answerValue && !t.meetsTarget)
+  );
+}
@@ -0,0 +1,68 @@
+// lib/holdingCosts.test.ts
+
+import { describe, expect, it } from "vitest";
+import { landTax, landTaxForHoldings } from "./holdingCosts";
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe("landTaxForHoldings", () => {
+  it("assesses an owner's land in a state together and splits it by land value", () => {
+    const taxes = landTaxForHoldings([
+      { state: "VIC", landValue: 350_000, shares: [1] },
+      { state: "VIC", landValue: 400_000, shares: [1] },
+    ]);
+
+    const combined = landTax("VIC", 750_000);
+    expect(combined).toBeGreaterThan(landTax("VIC", 350_000) + landTax("VIC", 400_000));
+    expect(sum(taxes)).toBeCloseTo(combined);
+    expect(taxes[0]).toBeCloseTo((combined * 350) / 750);
+  });
+
+  it("applies each co-owner's own thresholds to their share", () => {
+    const taxes = landTaxForHoldings([
+      { state: "VIC", landValue: 350_000, shares: [0.5, 0.5] },
+      { state: "VIC", landValue: 400_000, shares: [0.5, 0.5] },
+    ]);
+
+    expect(sum(taxes)).toBeCloseTo(2 * landTax("VIC", 375_000));
+  });
+
+  it("keeps each state's land separate", () => {
+    const taxes = landTaxForHoldings([
+      { state: "VIC", landValue: 350_000, shares: [1] },
+      { state: "NSW", landValue: 400_000, shares: [1] },
+    ]);
+
+    expect(taxes[0]).toBeCloseTo(landTax("VIC", 350_000));
+    expect(taxes[1]).toBeCloseTo(landTax("NSW", 400_000));
+  });
+
+  it("charges an ACT property once on its whole land value, however it's owned", () => {
+    const sole = landTaxForHoldings([{ state: "ACT", landValue: 500_000, shares: [1, 0] }]);
+    const shared = landTaxForHoldings([
+      { state: "ACT", landValue: 500_000, shares: [0.5, 0.5] },
+    ]);
+
+    expect(sole[0]).toBeCloseTo(landTax("ACT", 500_000));
+    expect(shared[0]).toBeCloseTo(sole[0]);
+  });
+
+  it("charges each ACT property on its own", () => {
+    const taxes = landTaxForHoldings([
+      { state: "ACT", landValue: 300_000, shares: [1] },
+      { state: "ACT", landValue: 400_000, shares: [1] },
+    ]);
+
+    expect(taxes[0]).toBeCloseTo(landTax("ACT", 300_000));
+    expect(taxes[1]).toBeCloseTo(landTax("ACT", 400_000));
+  });
+
+  it("charges nothing on land that isn't held", () => {
+    expect(
+      landTaxForHoldings([
+        { state: "ACT", landValue: 0, shares: [1] },
+        { state: "NSW", landValue: 0, shares: [1] },
+      ])
+    ).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,241 @@
+// lib/holdingCosts.ts
+
+import { bracketAmount, type AustralianState, type DutyBracket } from "./purchaseCosts";
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// Running costs of the investment property, in today's dollars
+export type HoldingCostInputs = {
+  managementFeeRate: number;    // share of rent collected, e.g. 0.07
+  vacancyWeeks: number;         // weeks a year without a tenant
+  councilStrataAnnual: number;  // council rates, water and strata levies
+  insuranceAnnual: number;      // landlord + building insurance
+  maintenanceAnnual: number;
+};
+
+// Depreciation schedule from a quantity surveyor's report
+export type DepreciationSchedule = {
+  buildingCost: number;            // Div 43 construction cost
+  buildingAgeYears: number;        // years since construction at purchase
+  plantAndEquipment: number;       // Div 40 assets' value at purchase
+  plantEffectiveLifeYears: number; // average effective life of those assets
+};
+
+// Land one property stands on, and who owns it
+export type LandHolding = {
+  state: AustralianState;
+  landValue: number;
+  shares: number[]; // each owner's share
+};
+
+export type HoldingCostBreakdown = {
+  grossRent: number;        // fully let
+  vacancyLoss: number;
+  rentCollected: number;
+  managementFees: number;
+  councilStrata: number;
+  insurance: number;
+  maintenance: number;
+  landTax: number;
+  cashExpenses: number;     // everything above except rent
+  div40Depreciation: number; // plant & equipment (non-cash)
+  div43Depreciation: number; // capital works (non-cash, reduces the cost base)
+};
+
+// ─────────────────────────────────────────────
+// 2. Land tax & depreciation rates
+// General rates for 2025 on the property's land value alone (the home
+// is exempt). Thresholds aren't indexed beyond that.
+// ─────────────────────────────────────────────
+
+export const LAND_TAX_SCHEDULES: Record<AustralianState, DutyBracket[]> = {
+  NSW: [
+    { threshold: 0, base: 0, rate: 0 },
+    { threshold: 1_075_000, base: 100, rate: 0.016 },
+    { threshold: 6_571_000, base: 88_036, rate: 0.02 },
+  ],
+  VIC: [
+    { threshold: 0, base: 0, rate: 0 },
+    { threshold: 50_000, base: 500, rate: 0 },
+    { threshold: 100_000, base: 975, rate: 0.003 },
+    { threshold: 300_000, base: 1_350, rate: 0.006 },
+    { threshold: 600_000, base: 3_150, rate: 0.009 },
+    { threshold: 1_000_000, base: 6_750, rate: 0.0165 },
+    { threshold: 1_800_000, base: 19_950, rate: 0.0265 },
+    { threshold: 3_000_000, base: 51_750, rate: 0.0255 },
+  ],
+  QLD: [
+    { threshold: 0, base: 0, rate: 0 },
+    { threshold: 600_000, base: 500, rate: 0.01 },
+    { threshold: 1_000_000, base: 4_500, rate: 0.0165 },
+    { threshold: 3_000_000, base: 37_500, rate: 0.0125 },
+    { threshold: 5_000_000, base: 62_500, rate: 0.0175 },
+    { threshold: 10_000_000, base: 150_000, rate: 0.0225 },
+  ],
+  WA: [
+    { threshold: 0, base: 0, rate: 0 },
+    { threshold: 300_000, base: 300, rate: 0 },
+    { threshold: 420_000, base: 300, rate: 0.0025 },
+    { threshold: 1_000_000, base: 1_750, rate: 0.009 },
+    { threshold: 1_800_000, base: 8_950, rate: 0.018 },
+    { threshold: 5_000_000, base: 66_550, rate: 0.02 },
+    { threshold: 11_000_000, base: 186_550, rate: 0.0267 },
+  ],
+  SA: [
+    { threshold: 0, base: 0, rate: 0 },
+    { threshold: 802_000, base: 0, rate: 0.005 },
+    { threshold: 1_167_000, base: 1_825, rate: 0.0165 },
+    { threshold: 1_556_000, base: 8_243.5, rate: 0.024 },
+  ],
+  TAS: [
+    { threshold: 0, base: 0, rate: 0 },
+    { threshold: 125_000, base: 50, rate: 0.0045 },
+    { threshold: 500_000, base: 1_737.5, rate: 0.015 },
+  ],
+  // Rented homes pay a fixed charge plus marginal rates from the first dollar
+  ACT: [
+    { threshold: 0, base: 1_591, rate: 0.0054 },
+    { threshold: 150_000, base: 2_401, rate: 0.0064 },
+    { threshold: 275_000, base: 3_201, rate: 0.0112 },
+    { threshold: 2_000_000, base: 22_521, rate: 0.0113 },
+  ],
+  NT: [{ threshold: 0, base: 0, rate: 0 }],
+};
+
+// A year without the property
+export const EMPTY_HOLDING_COSTS: HoldingCostBreakdown = {
+  grossRent: 0,
+  vacancyLoss: 0,
+  rentCollected: 0,
+  managementFees: 0,
+  councilStrata: 0,
+  insurance: 0,
+  maintenance: 0,
+  landTax: 0,
+  cashExpenses: 0,
+  div40Depreciation: 0,
+  div43Depreciation: 0,
+};
+
+// Capital works: 2.5% of the construction cost a year for 40 years
+export const CAPITAL_WORKS_RATE = 0.025;
+export const CAPITAL_WORKS_YEARS = 40;
+
+// ─────────────────────────────────────────────
+// 3. Calculation
+// ─────────────────────────────────────────────
+
+export function landTax(state: AustralianState, landValue: number): number {
+  if (landValue <= 0) return 0;
+  return bracketAmount(LAND_TAX_SCHEDULES[state], landValue);
+}
+
+// NSW, VIC, QLD, WA, SA and TAS assess land tax on each owner's total
+// land in the state (their landholding), so the thresholds apply once per
+// owner, not once per property. Each owner's tax is split back across
+// their properties in proportion to land value. The ACT is the exception:
+// it charges each rented parcel on its whole land value, once, however
+// many owners share it and whatever else they hold. The NT has no land tax.
+const PER_PARCEL_STATES: AustralianState[] = ["ACT"];
+
+export function landTaxForHoldings(holdings: LandHolding[]): number[] {
+  const taxes = holdings.map((h) =>
+    PER_PARCEL_STATES.includes(h.state) ? landTax(h.state, h.landValue) : 0
+  );
+  const owners = Math.max(0, ...holdings.map((h) => h.shares.length));
+  const states = [...new Set(holdings.map((h) => h.state))].filter(
+    (state) => !PER_PARCEL_STATES.includes(state)
+  );
+
+  for (let owner = 0; owner < owners; owner++) {
+    for (const state of states) {
+      const ownedLand = holdings.map((h) =>
+        h.state === state ? Math.max(0, h.landValue) * (h.shares[owner] ?? 0) : 0
+      );
+      const totalLand = ownedLand.reduce((sum, value) => sum + value, 0);
+      if (totalLand <= 0) continue;
+
+      const tax = landTax(state, totalLand);
+      ownedLand.forEach((value, i) => {
+        taxes[i] += (tax * value) / totalLand;
+      });
+    }
+  }
+  return taxes;
+}
+
+// Div 43: straight line on the construction cost until the building is 40
+export function capitalWorksDeduction(
+  schedule: DepreciationSchedule,
+  yearsHeld: number
+): number {
+  const buildingAge = schedule.buildingAgeYears + yearsHeld;
+  return buildingAge < CAPITAL_WORKS_YEARS
+    ? schedule.buildingCost * CAPITAL_WORKS_RATE
+    : 0;
+}
+
+// Div 40: diminishing value (200% ÷ effective life) on what's left
+export function plantDeduction(
+  schedule: DepreciationSchedule,
+  writtenDownValue: number
+): number {
+  if (schedule.plantEffectiveLifeYears <= 0 || writtenDownValue <= 0) return 0;
+  return writtenDownValue * Math.min(1, 2 / schedule.plantEffectiveLifeYears);
+}
+
+// One year's costs. Fixed costs are in today's dollars and scaled by
+// `costGrowthFactor`; rent is the fully-let rent for this year and land
+// tax is this property's share from `landTaxForHoldings`.
+export function holdingCostsForYear({
+  inputs,
+  grossRent,
+  landTax: tax,
+  costGrowthFactor,
+  div40Depreciation,
+  div43Depreciation,
+}: {
+  inputs: HoldingCostInputs;
+  grossRent: number;
+  landTax: number;
+  costGrowthFactor: number;
+  div40Depreciation: number;
+  div43Depreciation: number;
+}): HoldingCostBreakdown {
+  const vacancyLoss =
+    grossRent * (Math.min(52, Math.max(0, inputs.vacancyWeeks)) / 52);
+  const rentCollected = grossRent - vacancyLoss;
+
+  const managementFees = rentCollected * inputs.managementFeeRate;
+  const councilStrata = inputs.councilStrataAnnual * costGrowthFactor;
+  const insurance = inputs.insuranceAnnual * costGrowthFactor;
+  const maintenance = inputs.maintenanceAnnual * costGrowthFactor;
+
+  return {
+    grossRent,
+    vacancyLoss,
+    rentCollected,
+    managementFees,
+    councilStrata,
+    insurance,
+    maintenance,
+    landTax: tax,
+    cashExpenses: managementFees + councilStrata + insurance + maintenance + tax,
+    div40Depreciation,
+    div43Depreciation,
+  };
+}
+
+// Two properties' costs added line by line
+export function addHoldingCosts(
+  a: HoldingCostBreakdown,
+  b: HoldingCostBreakdown
+): HoldingCostBreakdown {
+  const total = { ...a };
+  for (const key of Object.keys(total) as (keyof HoldingCostBreakdown)[]) {
+    total[key] += b[key];
+  }
+  return total;
+}
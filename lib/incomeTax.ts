@@ -0,0 +1,122 @@
+// lib/incomeTax.ts
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// `rate` applies to each dollar above `threshold` (up to the next bracket)
+export type TaxBracket = {
+  threshold: number;
+  rate: number;
+};
+
+export type IncomeTaxTable = {
+  brackets: TaxBracket[]; // ascending by threshold, first threshold = 0
+
+  medicareLevyRate: number;          // e.g. 0.02
+  medicareLowIncomeThreshold: number; // no levy at or below this
+  medicarePhaseInRate: number;       // levy shades in at this rate above the threshold
+
+  // Low income tax offset (non-refundable)
+  litoMax: number;
+  litoFullThreshold: number;  // full offset up to here
+  litoFirstTaperRate: number;
+  litoMidThreshold: number;
+  litoSecondTaperRate: number;
+};
+
+export type IncomeTaxBreakdown = {
+  taxableIncome: number;
+  bracketTax: number;
+  lowIncomeOffset: number;
+  medicareLevy: number;
+  totalTax: number;
+  marginalRate: number; // incl. Medicare, on the next dollar earned
+};
+
+// ─────────────────────────────────────────────
+// 2. Calculation
+// ─────────────────────────────────────────────
+
+function bracketTax(taxableIncome: number, table: IncomeTaxTable): number {
+  let tax = 0;
+  table.brackets.forEach((bracket, i) => {
+    const next = table.brackets[i + 1];
+    const upper = next ? Math.min(taxableIncome, next.threshold) : taxableIncome;
+    if (upper > bracket.threshold) {
+      tax += (upper - bracket.threshold) * bracket.rate;
+    }
+  });
+  return tax;
+}
+
+function lowIncomeOffset(taxableIncome: number, table: IncomeTaxTable): number {
+  if (taxableIncome <= table.litoFullThreshold) return table.litoMax;
+
+  const midOffset =
+    table.litoMax -
+    (table.litoMidThreshold - table.litoFullThreshold) * table.litoFirstTaperRate;
+
+  const offset =
+    taxableIncome <= table.litoMidThreshold
+      ? table.litoMax -
+        (taxableIncome - table.litoFullThreshold) * table.litoFirstTaperRate
+      : midOffset -
+        (taxableIncome - table.litoMidThreshold) * table.litoSecondTaperRate;
+
+  return Math.max(0, offset);
+}
+
+function medicareLevy(taxableIncome: number, table: IncomeTaxTable): number {
+  if (taxableIncome <= table.medicareLowIncomeThreshold) return 0;
+
+  return Math.min(
+    taxableIncome * table.medicareLevyRate,
+    (taxableIncome - table.medicareLowIncomeThreshold) * table.medicarePhaseInRate
+  );
+}
+
+function totalTaxOn(taxableIncome: number, table: IncomeTaxTable): number {
+  const income = Math.max(0, taxableIncome);
+  const taxAfterOffsets = Math.max(
+    0,
+    bracketTax(income, table) - lowIncomeOffset(income, table)
+  );
+  return taxAfterOffsets + medicareLevy(income, table);
+}
+
+// Resident individual tax on a year's taxable income.
+// Losses (e.g. from negative gearing) simply reduce taxable income;
+// a net loss for the year means no tax rather than a refund.
+export function calculateIncomeTax(
+  taxableIncome: number,
+  table: IncomeTaxTable
+): IncomeTaxBreakdown {
+  const income = Math.max(0, taxableIncome);
+  const bracket = bracketTax(income, table);
+  const offset = Math.min(bracket, lowIncomeOffset(income, table));
+  const levy = medicareLevy(income, table);
+  const totalTax = bracket - offset + levy;
+
+  return {
+    taxableIncome,
+    bracketTax: bracket,
+    lowIncomeOffset: offset,
+    medicareLevy: levy,
+    totalTax,
+    marginalRate: (totalTaxOn(income + 100, table) - totalTax) / 100,
+  };
+}
+
+// Imputation credit attached to a dividend: the company tax already paid
+// on the franked part. It's added to taxable income (the "gross-up") and
+// then comes off tax payable as a refundable offset.
+export function frankingCredit(
+  dividend: number,
+  frankedShare: number,   // e.g. 0.8 for 80% franked
+  companyTaxRate: number  // e.g. 0.3
+): number {
+  if (dividend <= 0 || companyTaxRate >= 1) return 0;
+  const franked = dividend * Math.min(1, Math.max(0, frankedShare));
+  return (franked * companyTaxRate) / (1 - companyTaxRate);
+}
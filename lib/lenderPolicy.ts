@@ -0,0 +1,183 @@
+// lib/lenderPolicy.ts
+
+import { calculateIncomeTax, type IncomeTaxTable } from "./incomeTax";
+import { amortisingRepayment } from "./loanMaths";
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// The rules a lender applies before approving an investment loan
+export type LenderPolicy = {
+  maxLvr: number;             // lending limit against the home, e.g. 0.8
+  depositRate: number;        // share of the price funded from equity (costs on top)
+  assessmentBuffer: number;   // added to every loan rate, e.g. 0.03
+  rentalShading: number;      // share of rent counted as income, e.g. 0.8
+  hemSingleAnnual: number;    // minimum living expenses for one person
+  hemCoupleAnnual: number;    // ... and for a couple
+  assessmentTermYears: number; // every loan assessed as P&I over this term
+};
+
+export type DebtCommitment = {
+  balance: number;
+  rate: number; // actual rate; the buffer is added during assessment
+};
+
+// Rent from one property, split between the earners who own it
+export type RentalIncome = {
+  rentAnnual: number;
+  shares: number[];
+};
+
+export type EquityAssessment = {
+  usableEquity: number;    // security value × max LVR − secured debt
+  requiredEquity: number;  // deposit + purchase costs
+  passes: boolean;
+};
+
+export type ServiceabilityAssessment = {
+  assessedIncome: number;      // salaries + shaded rent, after tax
+  assessedExpenses: number;    // higher of declared expenses and the HEM floor
+  assessedRepayments: number;  // every loan as P&I at the buffered rate
+  surplus: number;             // per year; negative = fails
+  borrowingCapacity: number;   // largest new loan that still leaves surplus ≥ 0
+  passes: boolean;
+};
+
+// "none" – nothing stood in the way; otherwise the test(s) that failed
+export type BindingConstraint = "none" | "equity" | "serviceability" | "both";
+
+export type LendingAssessment = {
+  equity: EquityAssessment;
+  serviceability: ServiceabilityAssessment;
+  approved: boolean;
+  bindingConstraint: BindingConstraint;
+};
+
+export type LendingApplication = {
+  price: number;
+  purchaseCosts: number;          // paid from equity alongside the deposit
+  newLoanAmount: number;
+  newLoanRate: number;
+  rents: RentalIncome[];          // the new property's gross rent and any already held
+  salaries: number[];             // each earner's gross salary
+  livingExpensesAnnual: number;
+  securityValue: number;          // home + investment properties already held
+  securedDebt: number;            // loans secured against them
+  existingDebts: DebtCommitment[]; // incl. the home loan
+  taxTable: IncomeTaxTable;
+};
+
+// ─────────────────────────────────────────────
+// 2. Defaults
+// ─────────────────────────────────────────────
+
+// Typical major-bank settings. HEM floors are indicative only – the
+// real benchmark also depends on income, dependants and location.
+export const DEFAULT_LENDER_POLICY: LenderPolicy = {
+  maxLvr: 0.8,
+  depositRate: 0.2,
+  assessmentBuffer: 0.03,
+  rentalShading: 0.8,
+  hemSingleAnnual: 24_000,
+  hemCoupleAnnual: 36_000,
+  assessmentTermYears: 30,
+};
+
+// ─────────────────────────────────────────────
+// 3. Assessment
+// ─────────────────────────────────────────────
+
+export function assessEquity(
+  policy: LenderPolicy,
+  application: LendingApplication
+): EquityAssessment {
+  const usableEquity = Math.max(
+    0,
+    application.securityValue * policy.maxLvr - application.securedDebt
+  );
+  const requiredEquity =
+    application.price * policy.depositRate + application.purchaseCosts;
+
+  return {
+    usableEquity,
+    requiredEquity,
+    passes: usableEquity >= requiredEquity,
+  };
+}
+
+// Annual P&I repayment per dollar borrowed at the buffered rate
+function assessedRepaymentRate(policy: LenderPolicy, rate: number): number {
+  return (
+    amortisingRepayment(1, rate + policy.assessmentBuffer, policy.assessmentTermYears * 12) *
+    12
+  );
+}
+
+export function assessServiceability(
+  policy: LenderPolicy,
+  application: LendingApplication
+): ServiceabilityAssessment {
+  // Each earner is taxed on their salary plus their share of the shaded rent
+  const assessedIncome = application.salaries.reduce((sum, salary, i) => {
+    const shadedRent = application.rents.reduce(
+      (total, rent) => total + rent.rentAnnual * policy.rentalShading * (rent.shares[i] ?? 0),
+      0
+    );
+    const gross = salary + shadedRent;
+    return sum + gross - calculateIncomeTax(gross, application.taxTable).totalTax;
+  }, 0);
+
+  const hemFloor =
+    application.salaries.length > 1 ? policy.hemCoupleAnnual : policy.hemSingleAnnual;
+  const assessedExpenses = Math.max(application.livingExpensesAnnual, hemFloor);
+
+  const newLoanRepaymentRate = assessedRepaymentRate(policy, application.newLoanRate);
+  const existingRepayments = application.existingDebts.reduce(
+    (sum, debt) =>
+      sum + (debt.balance > 0 ? debt.balance * assessedRepaymentRate(policy, debt.rate) : 0),
+    0
+  );
+  const assessedRepayments =
+    existingRepayments + application.newLoanAmount * newLoanRepaymentRate;
+
+  const surplus = assessedIncome - assessedExpenses - assessedRepayments;
+  const borrowingCapacity =
+    newLoanRepaymentRate > 0
+      ? Math.max(
+          0,
+          (assessedIncome - assessedExpenses - existingRepayments) /
+            newLoanRepaymentRate
+        )
+      : Infinity;
+
+  return {
+    assessedIncome,
+    assessedExpenses,
+    assessedRepayments,
+    surplus,
+    borrowingCapacity,
+    passes: surplus >= 0,
+  };
+}
+
+// A loan is approved only when both the equity and serviceability tests pass
+export function assessLending(
+  policy: LenderPolicy,
+  application: LendingApplication
+): LendingAssessment {
+  const equity = assessEquity(policy, application);
+  const serviceability = assessServiceability(policy, application);
+
+  let bindingConstraint: BindingConstraint = "none";
+  if (!equity.passes && !serviceability.passes) bindingConstraint = "both";
+  else if (!equity.passes) bindingConstraint = "equity";
+  else if (!serviceability.passes) bindingConstraint = "serviceability";
+
+  return {
+    equity,
+    serviceability,
+    approved: equity.passes && serviceability.passes,
+    bindingConstraint,
+  };
+}
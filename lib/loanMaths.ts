@@ -0,0 +1,176 @@
+// lib/loanMaths.ts
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// "daily"   – interest accrues daily (rate / 365) and is charged each period
+// "monthly" – a flat 1/12th (or 1/periods) of the annual rate each period
+export type InterestMethod = "daily" | "monthly";
+
+// "halfMonthlyFortnightly" – half the monthly repayment paid every fortnight,
+// i.e. 26 half-payments = 13 monthly repayments a year
+export type RepaymentFrequency =
+  | "monthly"
+  | "fortnightly"
+  | "weekly"
+  | "halfMonthlyFortnightly";
+
+// "interestOnly" – interest-only for a number of years, then P&I over
+// what's left of the term
+export type LoanType = "interestOnly" | "principalAndInterest";
+
+export type PeriodAmortisation = {
+  openingBalance: number;
+  interest: number;
+  repayment: number;  // amount actually paid (capped at balance + interest)
+  principal: number;  // negative when interest capitalises
+  closingBalance: number;
+};
+
+// ─────────────────────────────────────────────
+// 2. Constants
+// ─────────────────────────────────────────────
+
+export const DAYS_PER_YEAR = 365;
+
+// Australian financial year order: July → June
+const DAYS_IN_MONTH_FROM_JULY = [31, 31, 30, 31, 30, 31, 31, 28, 31, 30, 31, 30];
+
+// ─────────────────────────────────────────────
+// 3. Helpers
+// ─────────────────────────────────────────────
+
+// Length (in days) of each repayment period in a year.
+// Fortnights and weeks don't divide 365 evenly, so the last period
+// absorbs the spare day.
+export function repaymentPeriodDays(frequency: RepaymentFrequency): number[] {
+  if (frequency === "monthly") return [...DAYS_IN_MONTH_FROM_JULY];
+
+  const daysPerPeriod = frequency === "weekly" ? 7 : 14;
+  const count = Math.floor(DAYS_PER_YEAR / daysPerPeriod);
+  const days = Array.from({ length: count }, () => daysPerPeriod);
+  days[count - 1] += DAYS_PER_YEAR - count * daysPerPeriod;
+  return days;
+}
+
+// Convert a monthly repayment into the amount paid each period
+export function periodRepayment(
+  monthlyAmount: number,
+  frequency: RepaymentFrequency
+): number {
+  switch (frequency) {
+    case "monthly":
+      return monthlyAmount;
+    case "fortnightly":
+      return (monthlyAmount * 12) / 26;
+    case "weekly":
+      return (monthlyAmount * 12) / 52;
+    case "halfMonthlyFortnightly":
+      return monthlyAmount / 2;
+  }
+}
+
+// Interest for one period on the balance not covered by the offset
+export function periodInterest(
+  balance: number,
+  offset: number,
+  annualRate: number,
+  days: number,
+  periodsPerYear: number,
+  method: InterestMethod
+): number {
+  const chargeableBalance = Math.max(0, balance - Math.max(0, offset));
+  if (chargeableBalance <= 0 || annualRate <= 0) return 0;
+
+  return method === "daily"
+    ? (chargeableBalance * annualRate * days) / DAYS_PER_YEAR
+    : (chargeableBalance * annualRate) / periodsPerYear;
+}
+
+// Charge one period of interest, then apply the repayment at period end.
+// Underpaying the interest capitalises the difference onto the balance.
+export function amortisePeriod({
+  balance,
+  offset,
+  annualRate,
+  repayment,
+  days,
+  periodsPerYear,
+  method,
+}: {
+  balance: number;
+  offset: number;
+  annualRate: number;
+  repayment: number;
+  days: number;
+  periodsPerYear: number;
+  method: InterestMethod;
+}): PeriodAmortisation {
+  const interest = periodInterest(
+    balance,
+    offset,
+    annualRate,
+    days,
+    periodsPerYear,
+    method
+  );
+  const repaymentPaid = Math.max(0, Math.min(repayment, balance + interest));
+  const closingBalance = Math.max(0, balance + interest - repaymentPaid);
+
+  return {
+    openingBalance: balance,
+    interest,
+    repayment: repaymentPaid,
+    principal: repaymentPaid - interest,
+    closingBalance,
+  };
+}
+
+// Monthly P&I repayment that clears `balance` over `months` at `annualRate`
+export function amortisingRepayment(
+  balance: number,
+  annualRate: number,
+  months: number
+): number {
+  if (balance <= 0) return 0;
+  if (months <= 0) return balance;
+
+  const monthlyRate = annualRate / 12;
+  if (monthlyRate <= 0) return balance / months;
+
+  return (balance * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+// Contractual monthly repayment: just the interest while interest-only,
+// otherwise P&I over the months left
+export function scheduledRepayment(
+  balance: number,
+  annualRate: number,
+  monthsRemaining: number,
+  interestOnly: boolean
+): number {
+  if (balance <= 0) return 0;
+  return interestOnly
+    ? (balance * Math.max(0, annualRate)) / 12
+    : amortisingRepayment(balance, annualRate, monthsRemaining);
+}
+
+// Months left on a loan implied by its current monthly repayment.
+// Infinity when the repayment doesn't cover the interest.
+export function impliedTermMonths(
+  balance: number,
+  annualRate: number,
+  monthlyRepayment: number
+): number {
+  if (balance <= 0) return 0;
+  if (monthlyRepayment <= 0) return Infinity;
+
+  const monthlyRate = annualRate / 12;
+  if (monthlyRate <= 0) return balance / monthlyRepayment;
+
+  const interestShare = (balance * monthlyRate) / monthlyRepayment;
+  if (interestShare >= 1) return Infinity;
+
+  return -Math.log(1 - interestShare) / Math.log(1 + monthlyRate);
+}
@@ -0,0 +1,83 @@
+// lib/loanSplits.test.ts
+
+import { describe, expect, it } from "vitest";
+import {
+  createLoanSplits,
+  repayLoanSplits,
+  splitBreakCost,
+  type FixedRateSplit,
+} from "./loanSplits";
+
+const fixed: FixedRateSplit = {
+  label: "Fixed 3 years",
+  balance: 400_000,
+  fixedRate: 0.059,
+  fixedYears: 3,
+  revertRate: 0.056,
+  extraRepaymentCapAnnual: 10_000,
+};
+
+// $200k variable at 5.5% plus the fixed split, over 30 years
+const splits = (fixedSplit: FixedRateSplit = fixed) =>
+  createLoanSplits(600_000, 0.055, [fixedSplit], 360, false);
+
+describe("splitBreakCost", () => {
+  it("prices the fixed rate's margin over today's comparable rate", () => {
+    const [, fixedSplit] = splits();
+    // 5.9% fixed vs 5.6% revert rate, 1% lower today, 3 years left
+    expect(splitBreakCost(fixedSplit, -0.01)).toBeCloseTo(400_000 * 0.013 * 3);
+    // Rates unchanged still leaves the 0.3% margin
+    expect(splitBreakCost(fixedSplit, 0)).toBeCloseTo(400_000 * 0.003 * 3);
+  });
+
+  it("is nothing once today's rate is at or above the fixed rate", () => {
+    const [, fixedSplit] = splits();
+    expect(splitBreakCost(fixedSplit, 0.003)).toBe(0);
+    expect(splitBreakCost(fixedSplit, 0.01)).toBe(0);
+
+    const [, belowRevert] = splits({ ...fixed, fixedRate: 0.052 });
+    expect(splitBreakCost(belowRevert, 0)).toBe(0);
+  });
+
+  it("is nothing for the variable split or once the fixed period ends", () => {
+    const [variable] = splits();
+    expect(splitBreakCost(variable, -0.02)).toBe(0);
+
+    const [, expired] = splits({ ...fixed, fixedYears: 0 });
+    expect(splitBreakCost(expired, -0.02)).toBe(0);
+  });
+});
+
+describe("repayLoanSplits", () => {
+  it("repays the variable split first without break costs", () => {
+    const repayment = repayLoanSplits(splits(), 150_000, -0.01);
+
+    expect(repayment.principalRepaid).toBeCloseTo(150_000);
+    expect(repayment.breakCostsPaid).toBe(0);
+    expect(repayment.splits[0].balance).toBeCloseTo(50_000);
+    expect(repayment.splits[1].balance).toBe(400_000);
+  });
+
+  it("pays break costs pro rata on the fixed balance repaid early", () => {
+    const start = splits();
+    const breakCost = splitBreakCost(start[1], -0.01);
+    const repayment = repayLoanSplits(start, 200_000 + 100_000, -0.01);
+
+    // $100k left after the variable split covers principal + its share of break costs
+    const breakCostRate = breakCost / 400_000;
+    const fixedRepaid = 100_000 / (1 + breakCostRate);
+    expect(repayment.splits[0].balance).toBeCloseTo(0);
+    expect(repayment.splits[1].balance).toBeCloseTo(400_000 - fixedRepaid);
+    expect(repayment.breakCostsPaid).toBeCloseTo(fixedRepaid * breakCostRate);
+    expect(repayment.principalRepaid + repayment.breakCostsPaid).toBeCloseTo(300_000);
+  });
+
+  it("clears every split when the amount covers balances and break costs", () => {
+    const start = splits();
+    const breakCost = splitBreakCost(start[1], -0.01);
+    const repayment = repayLoanSplits(start, 600_000 + breakCost + 1_000, -0.01);
+
+    expect(repayment.principalRepaid).toBeCloseTo(600_000);
+    expect(repayment.breakCostsPaid).toBeCloseTo(breakCost);
+  });
+});
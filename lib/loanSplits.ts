@@ -0,0 +1,304 @@
+// lib/loanSplits.ts
+
+import {
+  amortisePeriod,
+  periodRepayment,
+  scheduledRepayment,
+  type InterestMethod,
+  type PeriodAmortisation,
+  type RepaymentFrequency,
+} from "./loanMaths";
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// A fixed-rate portion of the home loan. Whatever isn't fixed is the
+// variable split, at the home loan rate.
+export type FixedRateSplit = {
+  label: string;
+  balance: number;
+  fixedRate: number;
+  fixedYears: number;              // years left on the fixed period
+  revertRate: number;              // variable rate it rolls onto (before any rate changes)
+  extraRepaymentCapAnnual: number; // extra repayments allowed each year while fixed
+};
+
+export type LoanSplitState = {
+  label: string;
+  balance: number;
+  rate: number;               // rate charged this year
+  fixed?: FixedRateSplit;     // undefined for the variable split
+  isFixed: boolean;           // still inside its fixed period this year
+  fixedYearsRemaining: number;
+  interestOnly: boolean;      // inside an interest-only period this year
+  minimumMonthly: number;     // contractual repayment (interest only or P&I)
+  extraCapRemaining: number;  // extra repayments still allowed this year
+};
+
+// ─────────────────────────────────────────────
+// 2. Set-up & yearly update
+// ─────────────────────────────────────────────
+
+// Variable split first (it takes extra repayments first), then fixed splits
+export function createLoanSplits(
+  totalBalance: number,
+  variableRate: number,
+  fixedSplits: FixedRateSplit[],
+  termMonths: number,
+  interestOnly: boolean
+): LoanSplitState[] {
+  const fixedTotal = fixedSplits.reduce((sum, split) => sum + split.balance, 0);
+  const minimumFor = (balance: number, rate: number) =>
+    interestOnly || Number.isFinite(termMonths)
+      ? scheduledRepayment(balance, rate, termMonths, interestOnly)
+      : 0;
+
+  const variableBalance = Math.max(0, totalBalance - fixedTotal);
+
+  return [
+    {
+      label: "Variable",
+      balance: variableBalance,
+      rate: variableRate,
+      isFixed: false,
+      fixedYearsRemaining: 0,
+      interestOnly,
+      minimumMonthly: minimumFor(variableBalance, variableRate),
+      extraCapRemaining: Infinity,
+    },
+    ...fixedSplits.map((split) => {
+      const isFixed = split.fixedYears > 0;
+      const rate = isFixed ? split.fixedRate : split.revertRate;
+      return {
+        label: split.label,
+        balance: split.balance,
+        rate,
+        fixed: split,
+        isFixed,
+        fixedYearsRemaining: Math.max(0, split.fixedYears),
+        interestOnly,
+        minimumMonthly: minimumFor(split.balance, rate),
+        extraCapRemaining: isFixed ? split.extraRepaymentCapAnnual : Infinity,
+      };
+    }),
+  ];
+}
+
+// How long a split stays fixed from the start of `yearIndex`
+function fixedTermForYear(
+  split: LoanSplitState,
+  yearIndex: number
+): Pick<LoanSplitState, "isFixed" | "fixedYearsRemaining"> {
+  const fixedYearsRemaining = split.fixed
+    ? Math.max(0, split.fixed.fixedYears - yearIndex)
+    : 0;
+  return { isFixed: fixedYearsRemaining > 0, fixedYearsRemaining };
+}
+
+// The splits with their fixed periods rolled onto `yearIndex` (rates and
+// minimums untouched), e.g. to price breaking them at the start of the year
+export function withFixedTermsForYear(
+  splits: LoanSplitState[],
+  yearIndex: number
+): LoanSplitState[] {
+  return splits.map((split) => ({ ...split, ...fixedTermForYear(split, yearIndex) }));
+}
+
+// Roll every split onto this year's rate. Fixed splits keep their rate
+// until expiry, then revert; everything variable moves with `rateShift`.
+// Lenders re-amortise a split's minimum whenever its rate changes or an
+// interest-only period ends; interest-only minimums follow the balance.
+export function updateSplitsForYear(
+  splits: LoanSplitState[],
+  yearIndex: number,
+  variableRate: number,
+  rateShift: number,
+  remainingMonths: number,
+  interestOnly: boolean
+): LoanSplitState[] {
+  return splits.map((split) => {
+    const { isFixed, fixedYearsRemaining } = fixedTermForYear(split, yearIndex);
+
+    let rate = variableRate;
+    if (split.fixed) {
+      rate = isFixed
+        ? split.fixed.fixedRate
+        : Math.max(0, split.fixed.revertRate + rateShift);
+    }
+
+    const needsRecalculation =
+      interestOnly ||
+      rate !== split.rate ||
+      interestOnly !== split.interestOnly;
+    const minimumMonthly =
+      needsRecalculation &&
+      split.balance > 0.01 &&
+      (interestOnly || Number.isFinite(remainingMonths))
+        ? scheduledRepayment(
+            split.balance,
+            rate,
+            Math.max(1, remainingMonths),
+            interestOnly
+          )
+        : split.minimumMonthly;
+
+    return {
+      ...split,
+      rate,
+      isFixed,
+      fixedYearsRemaining,
+      interestOnly,
+      minimumMonthly,
+      extraCapRemaining:
+        isFixed && split.fixed ? split.fixed.extraRepaymentCapAnnual : Infinity,
+    };
+  });
+}
+
+export function totalSplitBalance(splits: LoanSplitState[]): number {
+  return splits.reduce((sum, split) => sum + split.balance, 0);
+}
+
+export function totalSplitMinimum(splits: LoanSplitState[]): number {
+  return splits.reduce(
+    (sum, split) => sum + (split.balance > 0.01 ? split.minimumMonthly : 0),
+    0
+  );
+}
+
+// ─────────────────────────────────────────────
+// 3. Amortisation
+// ─────────────────────────────────────────────
+
+// One repayment period across every split. Each split gets its own
+// minimum; anything above that goes to variable splits first, then to
+// fixed splits up to their remaining extra-repayment allowance.
+// The offset only reduces interest on variable splits.
+export function amortiseSplitsPeriod({
+  splits,
+  offset,
+  repayment,
+  frequency,
+  days,
+  periodsPerYear,
+  method,
+}: {
+  splits: LoanSplitState[];
+  offset: number;
+  repayment: number;
+  frequency: RepaymentFrequency;
+  days: number;
+  periodsPerYear: number;
+  method: InterestMethod;
+}): { splits: LoanSplitState[]; period: PeriodAmortisation } {
+  const minimums = splits.map((split) =>
+    split.balance > 0.01 ? periodRepayment(split.minimumMonthly, frequency) : 0
+  );
+  let extra = Math.max(
+    0,
+    repayment - minimums.reduce((sum, amount) => sum + amount, 0)
+  );
+
+  // Variable splits (incl. expired fixed ones) take extra repayments first
+  const order = splits
+    .map((split, index) => ({ split, index }))
+    .sort((a, b) => Number(a.split.isFixed) - Number(b.split.isFixed));
+
+  let offsetLeft = Math.max(0, offset);
+  const updated = [...splits];
+  const total: PeriodAmortisation = {
+    openingBalance: 0,
+    interest: 0,
+    repayment: 0,
+    principal: 0,
+    closingBalance: 0,
+  };
+
+  for (const { split, index } of order) {
+    const splitOffset = split.isFixed ? 0 : Math.min(offsetLeft, split.balance);
+    offsetLeft -= splitOffset;
+
+    const extraAllowed = Math.min(extra, split.extraCapRemaining);
+    const period = amortisePeriod({
+      balance: split.balance,
+      offset: splitOffset,
+      annualRate: split.rate,
+      repayment: minimums[index] + extraAllowed,
+      days,
+      periodsPerYear,
+      method,
+    });
+
+    const extraPaid = Math.max(0, period.repayment - minimums[index]);
+    extra -= extraPaid;
+
+    updated[index] = {
+      ...split,
+      balance: period.closingBalance,
+      extraCapRemaining: split.extraCapRemaining - extraPaid,
+    };
+
+    total.openingBalance += period.openingBalance;
+    total.interest += period.interest;
+    total.repayment += period.repayment;
+    total.principal += period.principal;
+    total.closingBalance += period.closingBalance;
+  }
+
+  return { splits: updated, period: total };
+}
+
+// ─────────────────────────────────────────────
+// 4. Break costs & early repayment
+// ─────────────────────────────────────────────
+
+// Estimated economic cost of repaying a fixed split early: how far the
+// fixed rate sits above today's comparable rate (its revert rate moved by
+// any rate changes) × balance × years left. Nothing once the fixed period
+// ends or if the fixed rate is at or below today's rate.
+export function splitBreakCost(split: LoanSplitState, rateShift: number): number {
+  if (!split.isFixed || !split.fixed || split.balance <= 0) return 0;
+  const comparableRate = Math.max(0, split.fixed.revertRate + rateShift);
+  return (
+    split.balance *
+    Math.max(0, split.fixed.fixedRate - comparableRate) *
+    split.fixedYearsRemaining
+  );
+}
+
+export function totalBreakCosts(splits: LoanSplitState[], rateShift: number): number {
+  return splits.reduce((sum, split) => sum + splitBreakCost(split, rateShift), 0);
+}
+
+// Put a lump sum onto the loan: variable splits first, then fixed splits,
+// paying break costs pro rata on any fixed balance repaid early.
+export function repayLoanSplits(
+  splits: LoanSplitState[],
+  amount: number,
+  rateShift: number
+): { splits: LoanSplitState[]; principalRepaid: number; breakCostsPaid: number } {
+  let cashLeft = Math.max(0, amount);
+  let principalRepaid = 0;
+  let breakCostsPaid = 0;
+
+  const order = splits
+    .map((split, index) => ({ split, index }))
+    .sort((a, b) => Number(a.split.isFixed) - Number(b.split.isFixed));
+  const updated = [...splits];
+
+  for (const { split, index } of order) {
+    if (cashLeft <= 0 || split.balance <= 0) continue;
+
+    const breakCostRate = splitBreakCost(split, rateShift) / split.balance;
+    const principal = Math.min(split.balance, cashLeft / (1 + breakCostRate));
+    const breakCost = principal * breakCostRate;
+
+    cashLeft -= principal + breakCost;
+    principalRepaid += principal;
+    breakCostsPaid += breakCost;
+    updated[index] = { ...split, balance: split.balance - principal };
+  }
+
+  return { splits: updated, principalRepaid, breakCostsPaid };
+}
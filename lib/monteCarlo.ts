@@ -0,0 +1,257 @@
+// lib/monteCarlo.ts
+
+import {
+  DEFAULT_ASSUMPTIONS,
+  runDebtProSimulation,
+  type Assumptions,
+  type BaseInputs,
+  type MarketPaths,
+  type TipInputs,
+} from "./debtProEngine";
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// Annual mean and standard deviation of a randomised input
+export type StochasticFactor = {
+  mean: number;
+  volatility: number;
+};
+
+export type MonteCarloSettings = {
+  runs: number;
+  seed: number;              // same seed + inputs = same answer
+  homeGrowth: StochasticFactor;
+  ipGrowth: StochasticFactor;
+  investReturn: StochasticFactor;
+  interestRate: StochasticFactor; // long-run home loan rate the path reverts to
+  rateReversion: number;          // share of the gap to the mean closed each year
+};
+
+export type Percentiles = {
+  p10: number;
+  p50: number;
+  p90: number;
+};
+
+export type DebtFreeBucket = {
+  yearIndex: number;
+  runs: number;
+};
+
+export type MonteCarloResult = {
+  runs: number;
+  debtFreeProbability: number;      // share of runs debt-free within the projection
+  debtFreeYear?: Percentiles;        // yearIndex percentiles (runs that never clear count as the horizon)
+  debtFreeHistogram: DebtFreeBucket[];
+  netWorth: Percentiles[];           // per yearIndex
+};
+
+// Messages to and from the Monte Carlo web worker
+export type MonteCarloRequest = {
+  base: BaseInputs;
+  tips: TipInputs;
+  customAssumptions?: Partial<Assumptions>;
+  settings: MonteCarloSettings;
+};
+
+export type MonteCarloProgress = { runsDone: number; runs: number };
+
+// ─────────────────────────────────────────────
+// 2. Defaults
+// ─────────────────────────────────────────────
+
+// Factor order used by the correlation matrix below
+const FACTOR_COUNT = 4; // home growth, IP growth, invest return, interest rate
+
+// Houses move together; shares loosely follow property;
+// rising rates tend to coincide with weaker asset returns.
+const DEFAULT_CORRELATION: number[][] = [
+  [1.0, 0.8, 0.2, -0.3],
+  [0.8, 1.0, 0.2, -0.3],
+  [0.2, 0.2, 1.0, -0.2],
+  [-0.3, -0.3, -0.2, 1.0],
+];
+
+export function defaultMonteCarloSettings(
+  base: BaseInputs,
+  tips: TipInputs,
+  customAssumptions?: Partial<Assumptions>
+): MonteCarloSettings {
+  const assumptions = { ...DEFAULT_ASSUMPTIONS, ...customAssumptions };
+  return {
+    runs: 1000,
+    seed: 1,
+    homeGrowth: { mean: assumptions.homeGrowthRate, volatility: 0.08 },
+    ipGrowth: { mean: assumptions.ipGrowthRate, volatility: 0.08 },
+    investReturn: { mean: tips.tip6_investReturn, volatility: 0.15 },
+    interestRate: { mean: base.homeLoanRate, volatility: 0.0075 },
+    rateReversion: 0.3,
+  };
+}
+
+// ─────────────────────────────────────────────
+// 3. Random paths
+// ─────────────────────────────────────────────
+
+// Small seeded PRNG (mulberry32) so runs are repeatable
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box–Muller)
+function normal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Lower-triangular L with L·Lᵀ = matrix
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      lower[i][j] = i === j ? Math.sqrt(Math.max(sum, 0)) : sum / lower[j][j];
+    }
+  }
+  return lower;
+}
+
+function correlatedNormals(random: () => number, lower: number[][]): number[] {
+  const z = Array.from({ length: FACTOR_COUNT }, () => normal(random));
+  return lower.map((row) => row.reduce((sum, l, k) => sum + l * z[k], 0));
+}
+
+function drawMarketPaths(
+  years: number,
+  baseRate: number,
+  settings: MonteCarloSettings,
+  random: () => number,
+  lower: number[][]
+): MarketPaths {
+  const paths: MarketPaths = {
+    homeGrowthRate: [],
+    ipGrowthRate: [],
+    investReturn: [],
+    rateShift: [],
+  };
+
+  // Rates wander from today's rate back towards the long-run mean
+  let rate = baseRate;
+
+  for (let yearIndex = 0; yearIndex < years; yearIndex++) {
+    const [zHome, zIp, zInvest, zRate] = correlatedNormals(random, lower);
+
+    paths.homeGrowthRate.push(
+      settings.homeGrowth.mean + settings.homeGrowth.volatility * zHome
+    );
+    paths.ipGrowthRate.push(
+      settings.ipGrowth.mean + settings.ipGrowth.volatility * zIp
+    );
+    paths.investReturn.push(
+      settings.investReturn.mean + settings.investReturn.volatility * zInvest
+    );
+
+    // Year 0 keeps today's rate; shocks start from year 1
+    if (yearIndex > 0) {
+      rate +=
+        settings.rateReversion * (settings.interestRate.mean - rate) +
+        settings.interestRate.volatility * zRate;
+      rate = Math.max(0, rate);
+    }
+    paths.rateShift.push(rate - baseRate);
+  }
+
+  return paths;
+}
+
+// ─────────────────────────────────────────────
+// 4. Simulation
+// ─────────────────────────────────────────────
+
+// Nearest-rank percentile of an ascending array
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil(p * sorted.length) - 1)
+  );
+  return sorted[index];
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+  };
+}
+
+export function runMonteCarlo(
+  base: BaseInputs,
+  tips: TipInputs,
+  customAssumptions: Partial<Assumptions> | undefined,
+  settings: MonteCarloSettings,
+  onProgress?: (runsDone: number, runs: number) => void
+): MonteCarloResult {
+  const assumptions = { ...DEFAULT_ASSUMPTIONS, ...customAssumptions };
+  const years = assumptions.projectionYears;
+  const runs = Math.max(1, Math.round(settings.runs));
+  const random = createRandom(settings.seed);
+  const lower = cholesky(DEFAULT_CORRELATION);
+
+  const debtFreeYears: number[] = [];
+  const netWorthByYear: number[][] = Array.from({ length: years }, () => []);
+  let debtFreeRuns = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const result = runDebtProSimulation(base, tips, {
+      ...assumptions,
+      projectFullHorizon: true,
+      marketPaths: drawMarketPaths(years, base.homeLoanRate, settings, random, lower),
+    });
+
+    if (result.debtFreeYearIndex !== undefined) {
+      debtFreeRuns++;
+      debtFreeYears.push(result.debtFreeYearIndex);
+    } else {
+      debtFreeYears.push(years);
+    }
+
+    result.years.forEach((year) => {
+      netWorthByYear[year.yearIndex]?.push(year.netWorth);
+    });
+
+    if ((run + 1) % 50 === 0) onProgress?.(run + 1, runs);
+  }
+
+  const histogram = new Map<number, number>();
+  debtFreeYears.forEach((yearIndex) => {
+    if (yearIndex < years) {
+      histogram.set(yearIndex, (histogram.get(yearIndex) ?? 0) + 1);
+    }
+  });
+
+  return {
+    runs,
+    debtFreeProbability: debtFreeRuns / runs,
+    debtFreeYear: debtFreeRuns > 0 ? percentiles(debtFreeYears) : undefined,
+    debtFreeHistogram: [...histogram.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([yearIndex, count]) => ({ yearIndex, runs: count })),
+    netWorth: netWorthByYear.map(percentiles),
+  };
+}
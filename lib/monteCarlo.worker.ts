@@ -0,0 +1,17 @@
+// lib/monteCarlo.worker.ts
+
+import {
+  runMonteCarlo,
+  type MonteCarloProgress,
+  type MonteCarloRequest,
+  type MonteCarloResult,
+} from "./monteCarlo";
+import { serveWorkerJob } from "./workerJob";
+
+// Runs the simulations off the main thread so the page stays responsive
+serveWorkerJob<MonteCarloRequest, MonteCarloProgress, MonteCarloResult>(
+  ({ base, tips, customAssumptions, settings }, onProgress) =>
+    runMonteCarlo(base, tips, customAssumptions, settings, (runsDone, runs) =>
+      onProgress({ runsDone, runs })
+    )
+);
@@ -0,0 +1,273 @@
+// lib/optimiser.ts
+
+import {
+  runDebtProSimulation,
+  type Assumptions,
+  type BaseInputs,
+  type TipInputs,
+  type YearState,
+} from "./debtProEngine";
+import { GOAL_SEEK_BOUNDS, withGoalSeekValue, type GoalSeekVariable } from "./goalSeek";
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// "earliestDebtFree" – clear the home loan as soon as possible
+// "netWorth"         – highest net worth at `netWorthYearIndex`
+export type OptimiserObjective = "earliestDebtFree" | "netWorth";
+
+// Bounds the optimiser may search for one input; min = max holds it fixed
+export type OptimiserRange = {
+  enabled: boolean;
+  min: number;
+  max: number;
+  step: number;
+};
+
+export type OptimiserSettings = {
+  objective: OptimiserObjective;
+  netWorthYearIndex: number;
+  ranges: Record<GoalSeekVariable, OptimiserRange>;
+  propertyIndex: number; // which property's price, for "ipPrice"
+  gridPoints: number;    // values tried per input before refining
+  plans: number;         // how many plans to return
+};
+
+export type OptimisedPlan = {
+  values: Partial<Record<GoalSeekVariable, number>>;
+  tips: TipInputs;                // the whole plan, ready to use
+  debtFreeMonths?: number;
+  netWorth: number;               // at the objective's year
+  netWorthYearIndex: number;
+  lowestSurplus: number;          // smallest surplusCashflow in any year of the projection
+  lowestSurplusYearIndex: number;
+  interestPaid: number;           // every loan's interest up to the objective's year
+};
+
+export type OptimiserResult = {
+  plans: OptimisedPlan[];  // best first
+  simulations: number;
+  rejected: number;        // plans dropped for a year of negative surplus
+};
+
+// What the optimiser's web worker is sent
+export type OptimiserRequest = {
+  base: BaseInputs;
+  tips: TipInputs;
+  customAssumptions?: Partial<Assumptions>;
+  settings: OptimiserSettings;
+};
+
+// ─────────────────────────────────────────────
+// 2. Defaults
+// ─────────────────────────────────────────────
+
+export const OPTIMISER_VARIABLES: GoalSeekVariable[] = [
+  "extraRepayment",
+  "ipPrice",
+  "recycleAmount",
+];
+
+export function defaultOptimiserSettings(tips: TipInputs): OptimiserSettings {
+  return {
+    objective: "earliestDebtFree",
+    netWorthYearIndex: 9,
+    ranges: {
+      extraRepayment: { enabled: true, ...GOAL_SEEK_BOUNDS.extraRepayment, max: 5_000 },
+      ipPrice: {
+        enabled: tips.tip5_enabled && tips.tip5_properties.length > 0,
+        ...GOAL_SEEK_BOUNDS.ipPrice,
+        min: 400_000,
+        max: 1_200_000,
+      },
+      recycleAmount: {
+        enabled: tips.tip6_enabled,
+        ...GOAL_SEEK_BOUNDS.recycleAmount,
+        max: 200_000,
+      },
+    },
+    propertyIndex: 0,
+    gridPoints: 5,
+    plans: 3,
+  };
+}
+
+// ─────────────────────────────────────────────
+// 3. Scoring
+// ─────────────────────────────────────────────
+
+const snap = (value: number, range: OptimiserRange) =>
+  Math.min(
+    range.max,
+    Math.max(range.min, Math.round(value / range.step) * range.step)
+  );
+
+// Evenly spaced values across a range, on the step grid
+function gridValues(range: OptimiserRange, points: number): number[] {
+  if (range.max <= range.min || points < 2) return [range.min];
+  const values = Array.from({ length: points }, (_, i) =>
+    snap(range.min + ((range.max - range.min) * i) / (points - 1), range)
+  );
+  return [...new Set(values)];
+}
+
+// Negative = `a` is the better plan
+function comparePlans(
+  objective: OptimiserObjective,
+  a: OptimisedPlan,
+  b: OptimisedPlan
+): number {
+  const months = (plan: OptimisedPlan) => plan.debtFreeMonths ?? Infinity;
+  const byMonths = months(a) === months(b) ? 0 : months(a) - months(b);
+  const byNetWorth = b.netWorth - a.netWorth;
+
+  return objective === "earliestDebtFree"
+    ? byMonths || byNetWorth
+    : byNetWorth || byMonths;
+}
+
+// ─────────────────────────────────────────────
+// 4. Search
+// ─────────────────────────────────────────────
+
+// Grid search over the enabled inputs, then a pattern search around the
+// best plan with the spacing halved until it is below each input's step.
+// Every plan is projected over the full horizon, and any plan with a
+// negative surplus in any year – before or after it is debt-free – is
+// rejected.
+export function runOptimiser(
+  request: OptimiserRequest,
+  onProgress?: (simulations: number) => void
+): OptimiserResult {
+  const { base, tips, customAssumptions, settings } = request;
+  const assumptions: Partial<Assumptions> = {
+    ...customAssumptions,
+    projectFullHorizon: true,
+  };
+
+  const ranges = OPTIMISER_VARIABLES.filter((v) => settings.ranges[v].enabled).map(
+    (variable) => {
+      const range = settings.ranges[variable];
+      const min = Math.max(0, Math.min(range.min, range.max));
+      const max = Math.max(range.min, range.max);
+      return { variable, range: { ...range, min, max, step: Math.max(range.step, 1) } };
+    }
+  );
+
+  const evaluated = new Map<string, OptimisedPlan | null>();
+  let simulations = 0;
+  let rejected = 0;
+
+  const evaluate = (values: Partial<Record<GoalSeekVariable, number>>) => {
+    const key = JSON.stringify(values);
+    if (evaluated.has(key)) return evaluated.get(key) ?? null;
+
+    const planTips = ranges.reduce(
+      (plan, { variable }) =>
+        withGoalSeekValue(
+          plan,
+          { variable, propertyIndex: settings.propertyIndex },
+          values[variable] ?? 0
+        ),
+      tips
+    );
+    const result = runDebtProSimulation(base, planTips, assumptions);
+    simulations++;
+    if (simulations % 10 === 0) onProgress?.(simulations);
+
+    const lastYearIndex =
+      settings.objective === "netWorth"
+        ? Math.min(settings.netWorthYearIndex, result.years.length - 1)
+        : result.debtFreeYearIndex ?? result.years.length - 1;
+    const lowest = result.years.reduce<YearState | undefined>(
+      (worst, y) => (!worst || y.surplusCashflow < worst.surplusCashflow ? y : worst),
+      undefined
+    );
+
+    let plan: OptimisedPlan | null = null;
+    if (!lowest || lowest.surplusCashflow >= -0.5) {
+      plan = {
+        values,
+        tips: planTips,
+        debtFreeMonths: result.debtFreeMonths,
+        netWorth: result.years[lastYearIndex]?.netWorth ?? 0,
+        netWorthYearIndex: lastYearIndex,
+        lowestSurplus: lowest?.surplusCashflow ?? 0,
+        lowestSurplusYearIndex: lowest?.yearIndex ?? 0,
+        interestPaid: result.years
+          .filter((y) => y.yearIndex <= lastYearIndex)
+          .reduce(
+            (sum, y) => sum + y.homeLoanInterest + y.ipInterest + y.debtRecyclingInterest,
+            0
+          ),
+      };
+    } else {
+      rejected++;
+    }
+    evaluated.set(key, plan);
+    return plan;
+  };
+
+  const isBetter = (a: OptimisedPlan | null, b: OptimisedPlan | null): a is OptimisedPlan =>
+    a !== null && (b === null || comparePlans(settings.objective, a, b) < 0);
+
+  // 4.1 Grid
+  const points = Math.max(2, Math.round(settings.gridPoints));
+  let combinations: Partial<Record<GoalSeekVariable, number>>[] = [{}];
+  ranges.forEach(({ variable, range }) => {
+    combinations = combinations.flatMap((values) =>
+      gridValues(range, points).map((value) => ({ ...values, [variable]: value }))
+    );
+  });
+
+  let best: OptimisedPlan | null = null;
+  for (const values of combinations) {
+    const plan = evaluate(values);
+    if (isBetter(plan, best)) best = plan;
+  }
+
+  // 4.2 Pattern search around the best grid plan
+  const spacing = ranges.map(({ range }) => (range.max - range.min) / (points - 1));
+  if (best) {
+    const deltas = spacing.map((s) => s / 2);
+    while (deltas.some((delta, i) => delta >= ranges[i].range.step)) {
+      let improved = false;
+      for (const [i, { variable, range }] of ranges.entries()) {
+        if (deltas[i] < range.step) continue;
+        for (const direction of [-1, 1]) {
+          const value = snap((best.values[variable] ?? 0) + direction * deltas[i], range);
+          if (value === best.values[variable]) continue;
+          const plan = evaluate({ ...best.values, [variable]: value });
+          if (isBetter(plan, best)) {
+            best = plan;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) deltas.forEach((_, i) => (deltas[i] /= 2));
+    }
+  }
+
+  // 4.3 Best distinct plans: skip any within half a grid spacing of one
+  // already chosen on every input, so the list shows real alternatives
+  const ranked = [...evaluated.values()]
+    .filter((plan): plan is OptimisedPlan => plan !== null)
+    .sort((a, b) => comparePlans(settings.objective, a, b));
+
+  const plans: OptimisedPlan[] = [];
+  for (const plan of ranked) {
+    if (plans.length >= settings.plans) break;
+    const similar = plans.some((chosen) =>
+      ranges.every(
+        ({ variable }, i) =>
+          Math.abs((chosen.values[variable] ?? 0) - (plan.values[variable] ?? 0)) <
+          spacing[i] / 2
+      )
+    );
+    if (!similar) plans.push(plan);
+  }
+
+  onProgress?.(simulations);
+  return { plans, simulations, rejected };
+}
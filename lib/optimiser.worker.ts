@@ -0,0 +1,7 @@
+// lib/optimiser.worker.ts
+
+import { runOptimiser, type OptimiserRequest, type OptimiserResult } from "./optimiser";
+import { serveWorkerJob } from "./workerJob";
+
+// Runs the optimiser off the main thread so the page stays responsive
+serveWorkerJob<OptimiserRequest, number, OptimiserResult>(runOptimiser);
@@ -0,0 +1,220 @@
+// lib/purchaseCosts.ts
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+export type AustralianState =
+  | "NSW"
+  | "VIC"
+  | "QLD"
+  | "WA"
+  | "SA"
+  | "TAS"
+  | "ACT"
+  | "NT";
+
+// Duty is `base` plus `rate` on each dollar above `threshold`
+export type DutyBracket = {
+  threshold: number;
+  base: number;
+  rate: number;
+};
+
+export type DutySchedule = {
+  brackets: DutyBracket[]; // ascending by threshold, first threshold = 0
+  // Formula that replaces the brackets up to `upTo` (NT)
+  formula?: { upTo: number; duty: (price: number) => number };
+};
+
+// Lender's mortgage insurance premium (as a share of the loan) for an LVR band
+export type LmiBand = {
+  lvrAbove: number;
+  premiumRate: number;
+};
+
+export type PurchaseCostInputs = {
+  state: AustralianState;
+  price: number;
+  legalCosts: number;      // conveyancing, searches, registration
+  inspectionCosts: number; // building & pest
+  loanAmount: number;      // new lending for the purchase, before LMI
+  otherSecuredDebt: number;    // loans already secured against `otherSecurityValue`
+  otherSecurityValue: number;  // e.g. the home, when its equity funds the deposit
+};
+
+export type PurchaseCostBreakdown = {
+  stampDuty: number;
+  legalCosts: number;
+  inspectionCosts: number;
+  lmi: number;            // borrowing cost, added to the loan
+  combinedLvr: number;    // all secured debt / all security, before LMI
+  total: number;
+  costBaseCosts: number;  // part of the CGT cost base (everything but LMI)
+};
+
+// ─────────────────────────────────────────────
+// 2. Duty schedules & LMI premiums
+// General (investor, non-first-home) transfer duty rates for 2025–26.
+// Thresholds aren't indexed beyond that.
+// ─────────────────────────────────────────────
+
+export const STAMP_DUTY_SCHEDULES: Record<AustralianState, DutySchedule> = {
+  NSW: {
+    brackets: [
+      { threshold: 0, base: 0, rate: 0.0125 },
+      { threshold: 17_000, base: 212, rate: 0.015 },
+      { threshold: 36_000, base: 497, rate: 0.0175 },
+      { threshold: 97_000, base: 1_564, rate: 0.035 },
+      { threshold: 364_000, base: 10_909, rate: 0.045 },
+      { threshold: 1_212_000, base: 49_069, rate: 0.055 },
+      { threshold: 3_636_000, base: 182_389, rate: 0.07 },
+    ],
+  },
+  VIC: {
+    brackets: [
+      { threshold: 0, base: 0, rate: 0.014 },
+      { threshold: 25_000, base: 350, rate: 0.024 },
+      { threshold: 130_000, base: 2_870, rate: 0.06 },
+      // 5.5% of the whole price from $960k
+      { threshold: 960_000, base: 52_800, rate: 0.055 },
+      { threshold: 2_000_000, base: 110_000, rate: 0.065 },
+    ],
+  },
+  QLD: {
+    brackets: [
+      { threshold: 0, base: 0, rate: 0 },
+      { threshold: 5_000, base: 0, rate: 0.015 },
+      { threshold: 75_000, base: 1_050, rate: 0.035 },
+      { threshold: 540_000, base: 17_325, rate: 0.045 },
+      { threshold: 1_000_000, base: 38_025, rate: 0.0575 },
+    ],
+  },
+  WA: {
+    brackets: [
+      { threshold: 0, base: 0, rate: 0.019 },
+      { threshold: 120_000, base: 2_280, rate: 0.0285 },
+      { threshold: 150_000, base: 3_135, rate: 0.038 },
+      { threshold: 360_000, base: 11_115, rate: 0.0475 },
+      { threshold: 725_000, base: 28_453, rate: 0.0515 },
+    ],
+  },
+  SA: {
+    brackets: [
+      { threshold: 0, base: 0, rate: 0.01 },
+      { threshold: 12_000, base: 120, rate: 0.02 },
+      { threshold: 30_000, base: 480, rate: 0.03 },
+      { threshold: 50_000, base: 1_080, rate: 0.035 },
+      { threshold: 100_000, base: 2_830, rate: 0.04 },
+      { threshold: 200_000, base: 6_830, rate: 0.0425 },
+      { threshold: 250_000, base: 8_955, rate: 0.0475 },
+      { threshold: 300_000, base: 11_330, rate: 0.05 },
+      { threshold: 500_000, base: 21_330, rate: 0.055 },
+    ],
+  },
+  TAS: {
+    brackets: [
+      { threshold: 0, base: 50, rate: 0 },
+      { threshold: 3_000, base: 50, rate: 0.0175 },
+      { threshold: 25_000, base: 435, rate: 0.0225 },
+      { threshold: 75_000, base: 1_560, rate: 0.035 },
+      { threshold: 200_000, base: 5_935, rate: 0.04 },
+      { threshold: 375_000, base: 12_935, rate: 0.0425 },
+      { threshold: 725_000, base: 27_810, rate: 0.045 },
+    ],
+  },
+  ACT: {
+    brackets: [
+      { threshold: 0, base: 0, rate: 0.012 },
+      { threshold: 200_000, base: 2_400, rate: 0.022 },
+      { threshold: 300_000, base: 4_600, rate: 0.034 },
+      { threshold: 500_000, base: 11_400, rate: 0.0432 },
+      { threshold: 750_000, base: 22_200, rate: 0.059 },
+      { threshold: 1_000_000, base: 36_950, rate: 0.064 },
+      // 4.54% of the whole price from $1.455m
+      { threshold: 1_455_000, base: 66_057, rate: 0.0454 },
+    ],
+  },
+  NT: {
+    brackets: [
+      // Flat shares of the whole price above the formula range
+      { threshold: 0, base: 0, rate: 0.0495 },
+      { threshold: 3_000_000, base: 172_500, rate: 0.0575 },
+      { threshold: 5_000_000, base: 297_500, rate: 0.0595 },
+    ],
+    // D = 0.06571441 × V² + 15 × V, where V = price / 1,000
+    formula: {
+      upTo: 525_000,
+      duty: (price) => {
+        const v = price / 1_000;
+        return 0.06571441 * v * v + 15 * v;
+      },
+    },
+  },
+};
+
+// Typical investor premiums; lenders rarely go past 95%
+export const LMI_BANDS: LmiBand[] = [
+  { lvrAbove: 0.8, premiumRate: 0.013 },
+  { lvrAbove: 0.85, premiumRate: 0.024 },
+  { lvrAbove: 0.9, premiumRate: 0.039 },
+  { lvrAbove: 0.95, premiumRate: 0.045 },
+];
+
+// Borrowing costs (incl. LMI) are deducted evenly over 5 years
+export const BORROWING_COST_DEDUCTION_YEARS = 5;
+
+// ─────────────────────────────────────────────
+// 3. Calculation
+// ─────────────────────────────────────────────
+
+// `base` + `rate` × the amount above the threshold of the bracket `value`
+// falls in. Also used for land tax.
+export function bracketAmount(brackets: DutyBracket[], value: number): number {
+  const bracket =
+    [...brackets].reverse().find((b) => value > b.threshold) ?? brackets[0];
+  return bracket.base + (value - bracket.threshold) * bracket.rate;
+}
+
+export function stampDuty(state: AustralianState, price: number): number {
+  if (price <= 0) return 0;
+
+  const schedule = STAMP_DUTY_SCHEDULES[state];
+  if (schedule.formula && price <= schedule.formula.upTo) {
+    return schedule.formula.duty(price);
+  }
+
+  return bracketAmount(schedule.brackets, price);
+}
+
+export function lmiPremium(lvr: number, loanAmount: number): number {
+  const band = [...LMI_BANDS].reverse().find((b) => lvr > b.lvrAbove);
+  return band ? loanAmount * band.premiumRate : 0;
+}
+
+// Itemised costs of buying a property. LMI is charged when all the debt
+// secured against the property (and any other security offered, such as
+// the home) is more than 80% of their combined value.
+export function calculatePurchaseCosts(
+  inputs: PurchaseCostInputs
+): PurchaseCostBreakdown {
+  const duty = stampDuty(inputs.state, inputs.price);
+  const securityValue = inputs.price + inputs.otherSecurityValue;
+  const combinedLvr =
+    securityValue > 0
+      ? (inputs.loanAmount + inputs.otherSecuredDebt) / securityValue
+      : 0;
+  const lmi = lmiPremium(combinedLvr, inputs.loanAmount);
+
+  const costBaseCosts = duty + inputs.legalCosts + inputs.inspectionCosts;
+
+  return {
+    stampDuty: duty,
+    legalCosts: inputs.legalCosts,
+    inspectionCosts: inputs.inspectionCosts,
+    lmi,
+    combinedLvr,
+    total: costBaseCosts + lmi,
+    costBaseCosts,
+  };
+}
@@ -0,0 +1,58 @@
+// lib/rateSchedule.ts
+
+// ─────────────────────────────────────────────
+// 1. Types
+// ─────────────────────────────────────────────
+
+// Home loan rate from `yearIndex` onwards (until the next step).
+// A per-year rate table is just one step per year.
+export type RateStep = {
+  yearIndex: number;
+  rate: number;
+};
+
+// Temporary move on top of the steps, e.g. +2% for three years
+export type RateShock = {
+  startYearIndex: number;
+  years: number;   // Infinity = permanent
+  shift: number;   // e.g. 0.02
+};
+
+export type RateSchedule = {
+  steps: RateStep[];
+  shocks: RateShock[];
+};
+
+export const EMPTY_RATE_SCHEDULE: RateSchedule = { steps: [], shocks: [] };
+
+// ─────────────────────────────────────────────
+// 2. Resolution
+// ─────────────────────────────────────────────
+
+// Per-year change relative to today's home loan rate.
+// Variable loans move together, so the same shift applies to every loan.
+export function resolveRateShifts(
+  schedule: RateSchedule,
+  baseRate: number,
+  years: number
+): number[] {
+  const steps = [...schedule.steps].sort((a, b) => a.yearIndex - b.yearIndex);
+
+  return Array.from({ length: years }, (_, yearIndex) => {
+    let rate = baseRate;
+    for (const step of steps) {
+      if (step.yearIndex <= yearIndex) rate = step.rate;
+    }
+
+    const shocks = schedule.shocks.reduce(
+      (sum, shock) =>
+        yearIndex >= shock.startYearIndex &&
+        yearIndex < shock.startYearIndex + shock.years
+          ? sum + shock.shift
+          : sum,
+      0
+    );
+
+    return rate - baseRate + shocks;
+  });
+}
@@ -0,0 +1,136 @@
+// lib/taxTables.ts
+
+import type { IncomeTaxTable } from "./incomeTax";
+
+// ─────────────────────────────────────────────
+// 1. Registry of ATO resident tax tables
+// Keyed by the year the financial year ends in (2025 = 2024–25).
+// A table applies from its financial year until the next one.
+// ─────────────────────────────────────────────
+
+const LITO: Pick<
+  IncomeTaxTable,
+  | "litoMax"
+  | "litoFullThreshold"
+  | "litoFirstTaperRate"
+  | "litoMidThreshold"
+  | "litoSecondTaperRate"
+> = {
+  litoMax: 700,
+  litoFullThreshold: 37_500,
+  litoFirstTaperRate: 0.05,
+  litoMidThreshold: 45_000,
+  litoSecondTaperRate: 0.015,
+};
+
+const MEDICARE = {
+  medicareLevyRate: 0.02,
+  medicarePhaseInRate: 0.10,
+};
+
+export const TAX_TABLES: Record<number, IncomeTaxTable> = {
+  // 2023–24: pre stage 3
+  2024: {
+    brackets: [
+      { threshold: 0, rate: 0 },
+      { threshold: 18_200, rate: 0.19 },
+      { threshold: 45_000, rate: 0.325 },
+      { threshold: 120_000, rate: 0.37 },
+      { threshold: 180_000, rate: 0.45 },
+    ],
+    ...MEDICARE,
+    medicareLowIncomeThreshold: 26_000,
+    ...LITO,
+  },
+
+  // 2024–25: stage 3 tax cuts
+  2025: {
+    brackets: [
+      { threshold: 0, rate: 0 },
+      { threshold: 18_200, rate: 0.16 },
+      { threshold: 45_000, rate: 0.30 },
+      { threshold: 135_000, rate: 0.37 },
+      { threshold: 190_000, rate: 0.45 },
+    ],
+    ...MEDICARE,
+    medicareLowIncomeThreshold: 27_222,
+    ...LITO,
+  },
+
+  // 2026–27: 16% rate cut to 15%
+  2027: {
+    brackets: [
+      { threshold: 0, rate: 0 },
+      { threshold: 18_200, rate: 0.15 },
+      { threshold: 45_000, rate: 0.30 },
+      { threshold: 135_000, rate: 0.37 },
+      { threshold: 190_000, rate: 0.45 },
+    ],
+    ...MEDICARE,
+    medicareLowIncomeThreshold: 27_222,
+    ...LITO,
+  },
+
+  // 2027–28 onwards: 15% rate cut to 14%
+  2028: {
+    brackets: [
+      { threshold: 0, rate: 0 },
+      { threshold: 18_200, rate: 0.14 },
+      { threshold: 45_000, rate: 0.30 },
+      { threshold: 135_000, rate: 0.37 },
+      { threshold: 190_000, rate: 0.45 },
+    ],
+    ...MEDICARE,
+    medicareLowIncomeThreshold: 27_222,
+    ...LITO,
+  },
+};
+
+const REGISTERED_YEARS = Object.keys(TAX_TABLES)
+  .map(Number)
+  .sort((a, b) => a - b);
+
+// ─────────────────────────────────────────────
+// 2. Lookups
+// ─────────────────────────────────────────────
+
+// Financial year (by the year it ends in) that a date falls in
+export function financialYearFor(date: Date): number {
+  // July (month 6) starts the next financial year
+  return date.getUTCMonth() >= 6
+    ? date.getUTCFullYear() + 1
+    : date.getUTCFullYear();
+}
+
+// "2025–26" style label for a financial year
+export function formatFinancialYear(financialYear: number): string {
+  return `${financialYear - 1}–${String(financialYear).slice(-2)}`;
+}
+
+// Tax table in force for a financial year. Years after the last
+// registered table keep its rates, with the bracket and Medicare
+// thresholds indexed at `indexationRate` p.a. (0 = bracket creep).
+export function getTaxTable(
+  financialYear: number,
+  indexationRate = 0
+): IncomeTaxTable {
+  const applicableYear =
+    [...REGISTERED_YEARS].reverse().find((year) => year <= financialYear) ??
+    REGISTERED_YEARS[0];
+  const table = TAX_TABLES[applicableYear];
+
+  const yearsBeyond = financialYear - REGISTERED_YEARS[REGISTERED_YEARS.length - 1];
+  if (yearsBeyond <= 0 || indexationRate === 0) return table;
+
+  const factor = Math.pow(1 + indexationRate, yearsBeyond);
+  return {
+    ...table,
+    brackets: table.brackets.map((bracket) => ({
+      ...bracket,
+      threshold: Math.round(bracket.threshold * factor),
+    })),
+    medicareLowIncomeThreshold: Math.round(
+      table.medicareLowIncomeThreshold * factor
+    ),
+  };
+}
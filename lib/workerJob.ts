@@ -0,0 +1,18 @@
+// lib/workerJob.ts
+
+// Messages a web worker posts back while running one job
+export type WorkerJobMessage<Progress, Result> =
+  | { kind: "progress"; progress: Progress }
+  | { kind: "done"; result: Result };
+
+// Runs each request posted to this worker, posting progress as it goes
+// and then the result. Call once from the worker file.
+export function serveWorkerJob<Request, Progress, Result>(
+  run: (request: Request, onProgress: (progress: Progress) => void) => Result
+) {
+  self.onmessage = (event: MessageEvent<Request>) => {
+    const post = (message: WorkerJobMessage<Progress, Result>) => self.postMessage(message);
+    const result = run(event.data, (progress) => post({ kind: "progress", progress }));
+    post({ kind: "done", result });
+  };
+}